@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  AllocatableItem,
+  Allocation,
+  AllocationChange,
+  AllocationMode,
+  Bids,
+  DEFAULT_BUDGET,
+  allocationChanges,
+  autoDraft,
+  availableFor,
+  claimantsOf,
+  contestedItems,
+  nextDrafter,
+  overBudget,
+  personTotals,
+  pointsSpent,
+  resolveBids,
+  shuffle,
+  syncOrder,
+} from "./allocation";
+
+type Props = {
+  items: AllocatableItem[];
+  owners: string[];
+  onApply: (changes: AllocationChange[]) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export default function AllocationPanel({ items, owners, onApply, onClose }: Props) {
+  const contested = useMemo(() => contestedItems(items), [items]);
+  const participants = useMemo(
+    () => owners.filter(o => contested.some(i => claimantsOf(i).includes(o))),
+    [owners, contested],
+  );
+
+  const [mode, setMode] = useState<AllocationMode>("draft");
+  const [order, setOrder] = useState<string[]>(participants);
+  useEffect(() => { setOrder(prev => syncOrder(prev, participants)); }, [participants]);
+  const [started, setStarted] = useState(false);
+
+  // draft
+  const [picks, setPicks] = useState<Allocation>({});
+  const [turn, setTurn] = useState(0);
+
+  // pontos
+  const [budget, setBudget] = useState(DEFAULT_BUDGET);
+  const [bids, setBids] = useState<Bids>({});
+
+  const [applying, setApplying] = useState(false);
+
+  const drafterIdx = mode === "draft" ? nextDrafter(contested, order, picks, turn) : null;
+  const drafter = drafterIdx !== null ? order[drafterIdx] : null;
+
+  const allocation = useMemo<Allocation>(
+    () => (mode === "draft" ? picks : resolveBids(contested, bids, order)),
+    [mode, picks, contested, bids, order],
+  );
+  const draftDone = mode === "draft" && started && drafterIdx === null;
+  const overspent = mode === "points" ? overBudget(bids, budget) : [];
+  const ready = started && (mode === "points" ? overspent.length === 0 : draftDone);
+
+  const changes = useMemo(() => allocationChanges(contested, allocation), [contested, allocation]);
+  const totals = useMemo(
+    () => personTotals(order, items, changes, mode === "points" ? bids : {}),
+    [order, items, changes, mode, bids],
+  );
+
+  function moveInOrder(idx: number, delta: number) {
+    const j = idx + delta;
+    if (j < 0 || j >= order.length) return;
+    const next = [...order];
+    [next[idx], next[j]] = [next[j], next[idx]];
+    setOrder(next);
+  }
+
+  function start() {
+    setPicks({});
+    setTurn(0);
+    setBids({});
+    setStarted(true);
+  }
+
+  function reset() {
+    setStarted(false);
+    setPicks({});
+    setTurn(0);
+    setBids({});
+  }
+
+  function pick(itemId: string) {
+    if (drafterIdx === null || !drafter) return;
+    setPicks(p => ({ ...p, [itemId]: drafter }));
+    setTurn(drafterIdx + 1);
+  }
+
+  function setBid(person: string, itemId: string, value: number) {
+    setBids(prev => ({
+      ...prev,
+      [person]: { ...(prev[person] || {}), [itemId]: Math.max(0, Math.floor(value) || 0) },
+    }));
+  }
+
+  async function apply() {
+    setApplying(true);
+    const ok = await onApply(changes.filter(c => c.changed));
+    setApplying(false);
+    if (ok) onClose();
+  }
+
+  const titleOf = (i: AllocatableItem) => i.title || `Sem título (${i.id.slice(0, 6)})`;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Atribuir itens disputados</h2>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+        </div>
+
+        {contested.length === 0 ? (
+          <p className="text-sm text-neutral-600">Não há itens com interessados adicionais.</p>
+        ) : (
+          <>
+            <p className="text-sm text-neutral-600">
+              {contested.length} itens disputados entre {participants.length} pessoas.
+              O vencedor fica como dono; os restantes continuam como interessados.
+            </p>
+
+            {/* Configuração */}
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                {(["draft", "points"] as AllocationMode[]).map(m => (
+                  <button
+                    key={m}
+                    disabled={started}
+                    onClick={() => setMode(m)}
+                    className={[
+                      "px-3 py-2 border rounded-xl text-sm disabled:opacity-50",
+                      mode === m ? "bg-neutral-900 text-white" : "hover:bg-neutral-50",
+                    ].join(" ")}
+                  >
+                    {m === "draft" ? "Draft por turnos" : "Licitação por pontos"}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm text-neutral-700">
+                    {mode === "draft" ? "Ordem de escolha" : "Ordem de desempate"}
+                  </span>
+                  <button
+                    disabled={started}
+                    className="px-2 py-1 border rounded-lg text-xs disabled:opacity-50"
+                    onClick={() => setOrder(shuffle(order))}
+                  >
+                    Sortear
+                  </button>
+                </div>
+                <ol className="space-y-1">
+                  {order.map((name, idx) => (
+                    <li key={name} className="flex items-center gap-2 text-sm">
+                      <span className="w-5 text-neutral-500">{idx + 1}.</span>
+                      <span className="flex-1">{name}</span>
+                      <button
+                        disabled={started || idx === 0}
+                        className="px-2 border rounded-lg text-xs disabled:opacity-30"
+                        onClick={() => moveInOrder(idx, -1)}
+                        aria-label="Subir"
+                      >↑</button>
+                      <button
+                        disabled={started || idx === order.length - 1}
+                        className="px-2 border rounded-lg text-xs disabled:opacity-30"
+                        onClick={() => moveInOrder(idx, 1)}
+                        aria-label="Descer"
+                      >↓</button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              {mode === "points" && (
+                <label className="flex items-center gap-2 text-sm">
+                  Pontos por pessoa
+                  <input
+                    type="number"
+                    min={1}
+                    disabled={started}
+                    className="px-3 py-1 border rounded-xl text-sm w-24"
+                    value={budget}
+                    onChange={e => setBudget(Math.max(1, Number(e.target.value) || DEFAULT_BUDGET))}
+                  />
+                </label>
+              )}
+
+              <div className="flex gap-2">
+                {!started ? (
+                  <button className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white" onClick={start}>
+                    Começar
+                  </button>
+                ) : (
+                  <button className="px-3 py-2 border rounded-xl text-sm" onClick={reset}>Recomeçar</button>
+                )}
+              </div>
+            </div>
+
+            {/* Draft */}
+            {started && mode === "draft" && (
+              <div className="space-y-2">
+                {drafter ? (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">Vez de <strong>{drafter}</strong></span>
+                      <button
+                        className="ml-auto px-2 py-1 border rounded-lg text-xs"
+                        onClick={() => setPicks(autoDraft(contested, order, picks, turn))}
+                      >
+                        Completar automaticamente
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {availableFor(drafter, contested, picks).map(i => (
+                        <button
+                          key={i.id}
+                          className="px-3 py-1 border rounded-full text-xs hover:bg-neutral-50"
+                          onClick={() => pick(i.id)}
+                        >
+                          {titleOf(i)}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-neutral-600">Draft concluído.</p>
+                )}
+              </div>
+            )}
+
+            {/* Pontos */}
+            {started && mode === "points" && (
+              <div className="space-y-2 overflow-x-auto">
+                <table className="text-sm w-full">
+                  <thead>
+                    <tr className="text-left text-neutral-600">
+                      <th className="py-1 pr-2">Item</th>
+                      {order.map(p => (
+                        <th key={p} className="py-1 px-1 font-normal">
+                          {p}
+                          <div className={overspent.includes(p) ? "text-red-600 text-xs" : "text-neutral-500 text-xs"}>
+                            {pointsSpent(bids, p)}/{budget}
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {contested.map(i => {
+                      const claimants = claimantsOf(i);
+                      return (
+                        <tr key={i.id} className="border-t">
+                          <td className="py-1 pr-2">{titleOf(i)}</td>
+                          {order.map(p => (
+                            <td key={p} className="py-1 px-1">
+                              {claimants.includes(p) ? (
+                                <input
+                                  type="number"
+                                  min={0}
+                                  className="w-16 px-2 py-1 border rounded-lg text-xs"
+                                  value={bids[p]?.[i.id] ?? 0}
+                                  onChange={e => setBid(p, i.id, Number(e.target.value))}
+                                />
+                              ) : (
+                                <span className="text-neutral-300">—</span>
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {overspent.length > 0 && (
+                  <p className="text-xs text-red-600">Acima do orçamento: {overspent.join(", ")}</p>
+                )}
+              </div>
+            )}
+
+            {/* Pré-visualização */}
+            {started && changes.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Resultado proposto</h3>
+                <table className="text-sm w-full">
+                  <thead>
+                    <tr className="text-left text-neutral-600">
+                      <th className="py-1 pr-2">Item</th>
+                      <th className="py-1 pr-2">Dono</th>
+                      <th className="py-1">Continuam interessados</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map(c => (
+                      <tr key={c.id} className="border-t">
+                        <td className="py-1 pr-2">{c.title || `Sem título (${c.id.slice(0, 6)})`}</td>
+                        <td className="py-1 pr-2">
+                          {c.owner}
+                          {c.prevOwner !== c.owner && (
+                            <span className="text-xs text-neutral-500"> (antes: {c.prevOwner || "Sem dono"})</span>
+                          )}
+                        </td>
+                        <td className="py-1">{c.losers.join(", ") || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <table className="text-sm w-full">
+                  <thead>
+                    <tr className="text-left text-neutral-600">
+                      <th className="py-1 pr-2">Pessoa</th>
+                      <th className="py-1 pr-2">Ganhos</th>
+                      <th className="py-1 pr-2">Perdidos</th>
+                      <th className="py-1 pr-2">Total de itens</th>
+                      {mode === "points" && <th className="py-1">Pontos</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {totals.map(t => (
+                      <tr key={t.name} className="border-t">
+                        <td className="py-1 pr-2">{t.name}</td>
+                        <td className="py-1 pr-2">{t.won}</td>
+                        <td className="py-1 pr-2">{t.lost}</td>
+                        <td className="py-1 pr-2">{t.owned}</td>
+                        {mode === "points" && <td className="py-1">{t.pointsSpent}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Confirmar */}
+            {ready && (
+              <div className="flex gap-2 items-center justify-end">
+                <button
+                  className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+                  onClick={apply}
+                  disabled={applying || !changes.some(c => c.changed)}
+                >
+                  {applying ? "A aplicar…" : `Aplicar (${changes.filter(c => c.changed).length} alterações)`}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
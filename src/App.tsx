@@ -1,52 +1,176 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { createClient } from "@supabase/supabase-js";
-
-type Item = {
-  id: string;
-  image_url: string;
-  title: string | null;
-  owner: string | null;
-  also_want: string[];   // lista de interessados adicionais (nunca null)
-  created_at: string;
-  updated_at: string;
-};
-
-const OWNERS = ["Mãe","Pai","Sandra","Sofia","Diogo & Susana","Daniel","Eduardo"];
-
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
-const SUPABASE_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
-const ADMIN_PIN = import.meta.env.VITE_ADMIN_PIN as string;
-const supabase = createClient(SUPABASE_URL, SUPABASE_ANON);
-
-function normalizeImageUrl(raw: string) {
-  const url = raw.trim();
-  if (!url) return url;
-  const m = url.match(/https?:\/\/drive\.google\.com\/file\/d\/([^/]+)/);
-  if (m && m[1]) return `https://drive.google.com/uc?export=view&id=${m[1]}`;
-  return url;
-}
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "./supabase";
+import AllocationPanel from "./AllocationPanel";
+import FairnessDashboard from "./FairnessDashboard";
+import { Suggestion, formatEuros } from "./fairness";
+import IdentityGate from "./IdentityGate";
+import HistoryPanel from "./HistoryPanel";
+import PeopleAdmin from "./PeopleAdmin";
+import ImportDialog from "./ImportDialog";
+import type { PlannedRow } from "./importer";
+import { usePeople } from "./people";
+import { addComment, useCommentCounts, useCommentThread } from "./comments";
+import { ReadMarks, loadReadMarks, markRead, saveReadMarks } from "./readMarks";
+import Lightbox, { LightboxPanel } from "./Lightbox";
+import ItemImage from "./ItemImage";
+import BrokenImagesPanel from "./BrokenImagesPanel";
+import { dismissBrokenImage, reportBrokenImage } from "./brokenImages";
+import { neighbourIndexes } from "./zoom";
+import DigestPanel from "./DigestPanel";
+import BatchBar from "./BatchBar";
+import { BatchAction, batchPatch, summarize, toggleSelection } from "./batch";
+import { isContestingMine, loadLastSeen, newsStatus, saveLastSeen } from "./news";
+import type { AllocationChange } from "./allocation";
+import {
+  Identity,
+  SESSION_EXPIRED,
+  TOO_MANY_ATTEMPTS,
+  canSetOwner,
+  canToggleInterest,
+  dropAdmin,
+  elevateAdmin,
+  fetchSession,
+  loadIdentity,
+  logout,
+  saveIdentity,
+} from "./identity";
+import { Facets, ItemFilters, NO_FACET_COUNTS, NO_FILTERS, filterItems, knownFromFacets } from "./filters";
+import { fetchAllMatching, useInventory, useItemsQuery } from "./itemsQuery";
+import { itemLink, useViewState } from "./viewState";
+import VirtualGrid from "./VirtualGrid";
+import ItemFacetsEditor, { CATEGORIES_LIST, LOCATIONS_LIST, TAGS_LIST } from "./ItemFacetsEditor";
+import { ownerChangePatch, reassignPatch, sanitizeInterested } from "./itemRules";
+import type { ItemPatch } from "./itemsRepository";
+import { createSupabaseItemsRepository } from "./supabaseItemsRepository";
+import { applyPending, useSyncQueue } from "./sync";
+import ConflictDialog from "./ConflictDialog";
+import MergeDialog from "./MergeDialog";
+import ExportView from "./ExportView";
+import type { Item } from "./types";
 
-function sanitizeInterested(list: string[]): string[] {
-  const set = new Set(list.filter(n => OWNERS.includes(n)));
-  return Array.from(set);
-}
+const itemsRepo = createSupabaseItemsRepository(supabase);
+
+// pesquisa e contagens esperam que a escrita ou as alterações acalmem antes de ir ao servidor
+const SEARCH_DELAY_MS = 250;
+const COUNTS_DELAY_MS = 300;
 
 export default function App() {
-  const [items, setItems] = useState<Item[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [q, setQ] = useState("");
-  const [ownerFilter, setOwnerFilter] = useState<string>("todos");
-  const [onlyUntitled, setOnlyUntitled] = useState(false);
-  const [page, setPage] = useState(1);
-  const PAGE_SIZE = 12;
+  const [me, setMeState] = useState<Identity | null>(loadIdentity);
+  const { people, loading: loadingPeople } = usePeople();
+  // todos os nomes (inclui desativados, para não perder dados) e só os ativos (para escolher)
+  const allNames = useMemo(() => people.map(p => p.name), [people]);
+  const owners = useMemo(() => people.filter(p => p.active).map(p => p.name), [people]);
+  // filtros e item aberto vivem no URL (links partilháveis, "voltar" do browser)
+  const { view, setView, openItem, closeItem } = useViewState();
+  const { q, ownerFilter, onlyUntitled, onlyNews } = view;
+  const locationFilter = view.location;
+  const categoryFilter = view.category;
+  const tagFilter = view.tags;
+  const [searchQ, setSearchQ] = useState(q);   // q depois de parar de escrever
+
+  // comentários e o que esta pessoa já leu
+  const [readMarks, setReadMarks] = useState<ReadMarks>({});
+  useEffect(() => { setReadMarks(me ? loadReadMarks(me.name) : {}); }, [me?.name]);
+  const commentCounts = useCommentCounts(me?.name ?? null, readMarks);
+
+  // novidades: tudo o que mudou desde a última vez que esta pessoa marcou tudo como visto.
+  // Só "Marcar tudo como visto" avança a marca (recarregar ou abrir outro separador não a perde);
+  // na primeira visita começa a contar a partir de agora.
+  const [since, setSince] = useState<string | null>(null);
+  const [showDigest, setShowDigest] = useState(false);
+  useEffect(() => {
+    if (!me) return;
+    const seen = loadLastSeen(me.name);
+    if (!seen) saveLastSeen(me.name, new Date().toISOString());
+    setSince(seen);
+  }, [me?.name]);
+
+  // seleção múltipla para edição em lote
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [anchor, setAnchor] = useState<string | null>(null);
+  // itens selecionados que podem não estar carregados na grelha (selecionar todos do filtro)
+  const selectionPool = useRef(new Map<string, Item>());
 
   const [showImport, setShowImport] = useState(false);
-  const [pin, setPin] = useState("");
-  const [importText, setImportText] = useState("");
-  const [importing, setImporting] = useState(false);
 
-  // Lightbox simples (sem zoom)
-  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [showAllocation, setShowAllocation] = useState(false);
+  const [showPeople, setShowPeople] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showFairness, setShowFairness] = useState(false);
+  const [showBroken, setShowBroken] = useState(false);
+  const [mergeItemId, setMergeItemId] = useState<string | null>(null);
+
+  // Histórico: { itemId } para um item, {} para a atividade recente
+  const [historyView, setHistoryView] = useState<{ itemId?: string } | null>(null);
+
+  useEffect(() => {
+    const t = setTimeout(() => setSearchQ(q), SEARCH_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [q]);
+
+  const viewFilters = useMemo<ItemFilters>(
+    () => ({
+      q: searchQ,
+      ownerFilter,
+      onlyUntitled,
+      location: locationFilter,
+      category: categoryFilter,
+      tags: tagFilter,
+      news: onlyNews && since && me ? { since, me: me.name } : null,
+    }),
+    [searchQ, ownerFilter, onlyUntitled, locationFilter, categoryFilter, tagFilter, onlyNews, since, me?.name],
+  );
+
+  // a grelha pede ao servidor só as páginas que vai mostrando
+  const onLoadError = useCallback((err: any) => alert("Erro ao carregar itens: " + (err?.message || err)), []);
+  const query = useItemsQuery(itemsRepo, viewFilters, onLoadError);
+
+  // todos os itens, só enquanto está aberto um painel que precisa deles
+  const needsInventory = showImport || showAllocation || showFairness || showDigest || showExport || showBroken || !!mergeItemId || !!historyView;
+  const inventory = useInventory(itemsRepo, needsInventory);
+  const inventoryReady = inventory.items !== null;
+
+  // item como está no servidor (base para detetar conflitos)
+  function serverItem(id: string) {
+    return query.items.find(i => i.id === id)
+      ?? inventory.items?.find(i => i.id === id)
+      ?? (linkedItem?.id === id ? linkedItem : undefined);
+  }
+
+  const onApplied = useCallback((id: string, patch: ItemPatch) => {
+    query.patchItem(id, patch);
+    inventory.patchItem(id, patch);
+  }, [query.patchItem, inventory.patchItem]);
+  const onSyncError = useCallback((err: any) => handleRpcError("Erro ao guardar: ", err), []);
+  const sync = useSyncQueue({ repo: itemsRepo, me, onApplied, onError: onSyncError });
+  const remoteUpdateRef = useRef(sync.handleRemoteUpdate);
+  remoteUpdateRef.current = sync.handleRemoteUpdate;
+
+  // o que está carregado na grelha e o inventário, com as edições ainda por enviar por cima
+  const filtered = useMemo(
+    () => applyPending(query.items, sync.pending, me?.name ?? null),
+    [query.items, sync.pending, me?.name],
+  );
+  const items = useMemo(
+    () => applyPending(inventory.items || [], sync.pending, me?.name ?? null),
+    [inventory.items, sync.pending, me?.name],
+  );
+  const activeItems = useMemo(() => items.filter(i => !i.archived_at), [items]);
+  const myPending = me ? sync.pending.filter(w => w.author === me.name).length : 0;
+
+  // Lightbox: o item aberto vem do URL e pode ainda não estar carregado na grelha
+  const lightboxOpen = view.item !== null;
+  const lightboxIndex = lightboxOpen ? filtered.findIndex(i => i.id === view.item) : -1;
+  const [linkedItem, setLinkedItem] = useState<Item | null>(null);
+  useEffect(() => {
+    if (!view.item || lightboxIndex >= 0) return;
+    let active = true;
+    itemsRepo.get(view.item)
+      .then(item => { if (active) setLinkedItem(item); })
+      .catch(err => alert("Erro ao abrir item: " + (err?.message || err)));
+    return () => { active = false; };
+  }, [view.item, lightboxIndex >= 0]);
 
   // Header auto-hide
   const [hideHeader, setHideHeader] = useState(false);
@@ -60,7 +184,7 @@ export default function App() {
       setScrolled(y > 4);
 
       // não esconder enquanto o lightbox está aberto
-      if (lightboxIndex !== null) { setHideHeader(false); return; }
+      if (lightboxOpen) { setHideHeader(false); return; }
 
       if (!tickingRef.current) {
         tickingRef.current = true;
@@ -84,11 +208,11 @@ export default function App() {
 
     window.addEventListener("scroll", onScroll, { passive: true });
     return () => window.removeEventListener("scroll", onScroll);
-  }, [lightboxIndex]);
+  }, [lightboxOpen]);
 
   // Bloquear scroll do fundo quando o lightbox está aberto
   useEffect(() => {
-    if (lightboxIndex !== null) {
+    if (lightboxOpen) {
       const prevOverflow = document.body.style.overflow;
       const prevPos = document.body.style.position;
       document.body.style.overflow = "hidden";
@@ -98,84 +222,311 @@ export default function App() {
         document.body.style.position = prevPos;
       };
     }
-  }, [lightboxIndex]);
+  }, [lightboxOpen]);
 
+  // confirmar a sessão guardada (e o papel de admin) junto do servidor
   useEffect(() => {
-    (async () => {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from("items")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (!error) {
-        setItems((data || []).map((d: any) => ({
-          ...d,
-          also_want: Array.isArray(d.also_want) ? d.also_want : [], // normalizar
-        })));
-      }
-      setLoading(false);
-    })();
-
-    const channel = supabase
-      .channel("realtime:items")
-      .on("postgres_changes", { event: "INSERT", schema: "public", table: "items" }, (p: any) => {
-        const row = { ...p.new, also_want: Array.isArray(p.new.also_want) ? p.new.also_want : [] } as Item;
-        setItems(prev => [row, ...prev.filter(i => i.id !== row.id)]);
-      })
-      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "items" }, (p: any) => {
-        const row = { ...p.new, also_want: Array.isArray(p.new.also_want) ? p.new.also_want : [] } as Item;
-        setItems(prev => prev.map(i => (i.id === row.id ? row : i)));
-      })
-      .subscribe();
-
-    return () => { supabase.removeChannel(channel); };
+    if (me) refreshSession(me.token);
   }, []);
 
-  const filtered = useMemo(() => {
-    let list = items;
-    if (q.trim()) list = list.filter(i => (i.title || "").toLowerCase().includes(q.trim().toLowerCase()));
-    if (ownerFilter === "__none__") list = list.filter(i => !i.owner);
-    else if (ownerFilter !== "todos") list = list.filter(i => i.owner === ownerFilter);
-    if (onlyUntitled) list = list.filter(i => !i.title || i.title.trim() === "");
-    return list;
-  }, [items, q, ownerFilter, onlyUntitled]);
-
-  const totalPages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
-  const pageItems = useMemo(() => {
-    const start = (page - 1) * PAGE_SIZE;
-    return filtered.slice(start, start + PAGE_SIZE);
-  }, [filtered, page]);
-
-  async function updateItem(id: string, patch: Partial<Item>) {
-    const { error } = await supabase.from("items").update(patch).eq("id", id);
-    if (error) alert("Erro ao guardar: " + error.message);
+  // sessão de alguém que entretanto mudou de nome ou foi junto com outra pessoa
+  useEffect(() => {
+    if (!loadingPeople && me && !allNames.includes(me.name)) refreshSession(me.token);
+  }, [loadingPeople, allNames]);
+
+  // cada alteração em tempo real entra na grelha (se corresponder aos filtros) e no inventário
+  const [changeTick, setChangeTick] = useState(0);
+  useEffect(() => itemsRepo.subscribe(change => {
+    if (change.type === "UPDATE") remoteUpdateRef.current(change.item);
+    query.applyChange(change);
+    inventory.applyChange(change);
+    if (change.type !== "DELETE") setLinkedItem(prev => (prev?.id === change.item.id ? change.item : prev));
+    setChangeTick(t => t + 1);
+  }), []);
+
+  // facetas, valores conhecidos e número de novidades também vêm do servidor
+  const [facets, setFacets] = useState<Facets>(NO_FACET_COUNTS);
+  const [known, setKnown] = useState(() => knownFromFacets(NO_FACET_COUNTS));
+  const [newsCount, setNewsCount] = useState(0);
+  const filtersKey = JSON.stringify(viewFilters);
+
+  useEffect(() => {
+    const t = setTimeout(() => {
+      itemsRepo.facets(viewFilters).then(setFacets).catch(() => {});
+    }, COUNTS_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [filtersKey, changeTick]);
+
+  useEffect(() => {
+    const t = setTimeout(() => {
+      itemsRepo.facets(NO_FILTERS).then(f => setKnown(knownFromFacets(f))).catch(() => {});
+      if (!me || !since) return setNewsCount(0);
+      itemsRepo.search({ ...NO_FILTERS, news: { since, me: me.name } }, 0, 1)
+        .then(page => setNewsCount(page.total))
+        .catch(() => {});
+    }, COUNTS_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [changeTick, since, me?.name]);
+
+  function setMe(identity: Identity | null) {
+    saveIdentity(identity);
+    setMeState(identity);
+  }
+
+  async function refreshSession(token: string) {
+    try {
+      setMe(await fetchSession(token));
+    } catch (err: any) {
+      alert("Erro ao confirmar sessão: " + (err?.message || err));
+    }
+  }
+
+  async function signOut() {
+    if (me) await logout(me.token);
+    setMe(null);
   }
 
-  async function handleImport() {
-    if (pin !== String(ADMIN_PIN)) return alert("PIN inválido");
-    const urls = importText.split(/\r?\n/).map(s => s.trim()).filter(Boolean).map(normalizeImageUrl);
-    const unique = urls.filter(u => u.startsWith("http") && !items.some(it => it.image_url === u));
-    if (!unique.length) return alert("Nenhum link novo para importar.");
-    setImporting(true);
-    const { error } = await supabase.from("items").insert(unique.map(u => ({ image_url: u })));
-    setImporting(false);
-    if (error) return alert("Erro ao importar: " + error.message);
-    setImportText("");
-    setShowImport(false);
+  async function toggleAdmin() {
+    if (!me) return;
+    try {
+      if (me.admin) await dropAdmin(me.token);
+      else {
+        const entered = prompt("PIN de admin");
+        if (entered === null) return;
+        if (!(await elevateAdmin(me.token, entered))) return alert("PIN inválido");
+      }
+    } catch (err: any) {
+      return alert(err?.code === TOO_MANY_ATTEMPTS ? err.message : "Erro: " + (err?.message || err));
+    }
+    await refreshSession(me.token);
+  }
+
+  // erros das RPCs: sessão expirada volta ao "quem és tu?"
+  function handleRpcError(prefix: string, error: { message: string; code?: string }) {
+    if (error.code === SESSION_EXPIRED) {
+      alert("A sessão expirou. Entra outra vez.");
+      setMe(null);
+    } else {
+      alert(prefix + error.message);
+    }
+  }
+
+  // aplica logo no ecrã e fica na fila até o servidor confirmar
+  async function updateItem(id: string, patch: ItemPatch) {
+    const base = serverItem(id);
+    if (!me || !base) return false;
+    try {
+      await sync.enqueue(base, patch);
+      return true;
+    } catch (err: any) {
+      alert("Erro ao guardar localmente: " + (err?.message || err));
+      return false;
+    }
+  }
+
+  // ações de admin que não passam pela fila (precisam de ligação)
+  async function adminAction(prefix: string, action: () => Promise<void>) {
+    if (!me?.admin) return false;
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      handleRpcError(prefix, err);
+      return false;
+    }
+  }
+
+  function archiveItem(item: Item) {
+    return adminAction("Erro ao arquivar: ", () => itemsRepo.archive(me!.token, item.id));
+  }
+
+  function restoreItem(item: Item) {
+    return adminAction("Erro ao restaurar: ", () => itemsRepo.restore(me!.token, item.id));
+  }
+
+  function deleteItem(item: Item) {
+    if (!confirm(`Apagar definitivamente "${item.title || "Sem título"}"? Não é possível desfazer.`)) return;
+    return adminAction("Erro ao apagar: ", () => itemsRepo.remove(me!.token, item.id));
+  }
+
+  function relinkImage(itemId: string, imageUrl: string) {
+    return adminAction("Erro ao re-ligar imagem: ", () => itemsRepo.relinkImage(me!.token, itemId, imageUrl));
+  }
+
+  function dismissBroken(itemId: string) {
+    return adminAction("Erro ao dispensar: ", () => dismissBrokenImage(me!.token, itemId));
+  }
+
+  // nenhuma fonte carregou: fica na lista do admin (falhas ao reportar não incomodam ninguém)
+  function reportBroken(item: Item) {
+    if (me) reportBrokenImage(me.token, item.id, item.image_url).catch(() => {});
+  }
+
+  function mergeItems(keepId: string, dropId: string, primaryUrl: string) {
+    return adminAction("Erro ao juntar: ", () => itemsRepo.merge(me!.token, keepId, dropId, primaryUrl));
+  }
+
+  async function applyAllocation(changes: AllocationChange[]) {
+    if (!me?.admin) return false;
+    for (const c of changes) {
+      const ok = await updateItem(c.id, { owner: c.owner, also_want: c.also_want });
+      if (!ok) return false;
+    }
+    return true;
+  }
+
+  function applySuggestion(s: Suggestion) {
+    const item = serverItem(s.id);
+    if (!me?.admin || !item) return Promise.resolve(false);
+    return updateItem(s.id, reassignPatch(item, s.to, allNames));
+  }
+
+  function selectItem(id: string, range: boolean) {
+    setSelected(prev => toggleSelection(prev, filtered.map(i => i.id), id, anchor, range));
+    setAnchor(id);
+  }
+
+  async function selectAllFiltered() {
+    try {
+      const all = await fetchAllMatching(itemsRepo, viewFilters);
+      for (const item of all) selectionPool.current.set(item.id, item);
+      setSelected(all.map(i => i.id));
+    } catch (err: any) {
+      alert("Erro ao selecionar: " + (err?.message || err));
+    }
+  }
+
+  function exitSelection() {
+    setSelecting(false);
+    setSelected([]);
+    setAnchor(null);
+    selectionPool.current.clear();
+  }
+
+  // uma só chamada ao servidor; os erros vêm por item em vez de um alert cada
+  async function runBatch(action: BatchAction) {
+    if (!me) return null;
+    const loaded = new Map(filtered.map(i => [i.id, i]));
+    const targets = selected.flatMap(id => {
+      const item = loaded.get(id) ?? selectionPool.current.get(id);
+      return item ? [item] : [];
+    });
+    try {
+      if (action.kind === "archive") {
+        if (!me.admin) return null;
+        return summarize(targets, await itemsRepo.archiveMany(me.token, targets.map(i => i.id)), 0);
+      }
+      const changes = targets.flatMap(i => {
+        const patch = batchPatch(i, action, allNames);
+        return patch ? [{ id: i.id, patch }] : [];
+      });
+      const results = changes.length ? await itemsRepo.updateMany(me.token, changes) : [];
+      return summarize(targets, results, targets.length - changes.length);
+    } catch (err: any) {
+      handleRpcError("Erro na edição em lote: ", err);
+      return null;
+    }
+  }
+
+  function markAllSeen() {
+    if (!me) return;
+    const now = new Date().toISOString();
+    saveLastSeen(me.name, now);
+    setSince(now);
+    setView({ onlyNews: false }, "replace");
+    setShowDigest(false);
+  }
+
+  async function sendComment(itemId: string, body: string) {
+    if (!me) return false;
+    try {
+      await addComment(me.token, itemId, body);
+      return true;
+    } catch (err: any) {
+      handleRpcError("Erro ao comentar: ", err);
+      return false;
+    }
+  }
+
+  async function handleImport(rows: PlannedRow[]) {
+    if (!me?.admin) { alert("Só o admin pode importar."); return false; }
+    try {
+      const results = await itemsRepo.importItems(
+        me.token,
+        rows.map(r => ({ image_url: r.image_url, title: r.title, owner: r.owner, also_want: r.also_want })),
+      );
+      // os resultados vêm pela ordem das linhas enviadas
+      const refused = results.flatMap((r, i) => (r.error ? [`linha ${rows[i].line}: ${r.error}`] : []));
+      if (refused.length) {
+        alert(`Importados ${results.length - refused.length}; recusados ${refused.length}:\n${refused.join("\n")}`);
+      }
+      return true;
+    } catch (err: any) {
+      handleRpcError("Erro ao importar: ", err);
+      return false;
+    }
   }
 
   function closeLightbox() {
-    setLightboxIndex(null);
+    closeItem();
+  }
+
+  // as setas trocam o item no URL sem criar entradas novas no histórico
+  function stepLightbox(delta: number) {
+    if (lightboxIndex < 0) return;
+    openItem(filtered[(lightboxIndex + delta + filtered.length) % filtered.length].id, "replace");
   }
 
-  function onKeyDown(e: React.KeyboardEvent) {
-    if (e.key === "Escape") closeLightbox();
-    if (e.key === "ArrowRight" && lightboxIndex !== null) setLightboxIndex(i => (i! + 1) % filtered.length);
-    if (e.key === "ArrowLeft" && lightboxIndex !== null) setLightboxIndex(i => (i! - 1 + filtered.length) % filtered.length);
+  async function copyLink(itemId: string) {
+    const url = itemLink(window.location.origin + window.location.pathname, itemId);
+    try {
+      await navigator.clipboard.writeText(url);
+      alert("Link copiado.");
+    } catch {
+      window.prompt("Copie o link:", url);
+    }
+  }
+
+  const currentItem = lightboxIndex >= 0
+    ? filtered[lightboxIndex]
+    : linkedItem && linkedItem.id === view.item ? applyPending([linkedItem], sync.pending, me?.name ?? null)[0] : null;
+  const currentThread = useCommentThread(currentItem?.id ?? null);
+
+  // a navegar no lightbox perto do fim do que está carregado: pedir a página seguinte
+  useEffect(() => {
+    if (lightboxIndex >= 0 && lightboxIndex >= filtered.length - 3) query.loadMore();
+  }, [lightboxIndex, filtered.length]);
+
+  // ao abrir um item guarda-se até onde já tinha lido (para assinalar os novos) e marca-se tudo como lido
+  const [lightboxLastRead, setLightboxLastRead] = useState(0);
+  const [lightboxPanel, setLightboxPanel] = useState<LightboxPanel>("comments");
+  useEffect(() => {
+    if (currentItem) setLightboxLastRead(readMarks[currentItem.id] ?? 0);
+  }, [currentItem?.id]);
+  useEffect(() => {
+    if (!me || !currentItem) return;
+    const next = markRead(readMarks, currentThread);
+    if (next === readMarks) return;
+    setReadMarks(next);
+    saveReadMarks(me.name, next);
+  }, [currentItem?.id, currentThread.length]);
+
+  if (!me) {
+    if (loadingPeople) return <div className="py-24 text-center text-neutral-500">A carregar…</div>;
+    return <IdentityGate owners={owners} onIdentified={setMe} />;
   }
 
-  const currentItem = lightboxIndex !== null ? filtered[lightboxIndex] : null;
+  if (showExport) {
+    if (!inventoryReady) return <div className="py-24 text-center text-neutral-500">A carregar…</div>;
+    return (
+      <ExportView
+        items={filterItems(items, viewFilters)}
+        totalCount={items.length}
+        people={allNames}
+        onClose={() => setShowExport(false)}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen">
@@ -188,8 +539,43 @@ export default function App() {
         ].join(" ")}
       >
         <div className="max-w-7xl mx-auto p-4">
-          {/* Título */}
-          <h1 className="text-xl font-semibold">Arrecadação – Galeria</h1>
+          {/* Título + sessão */}
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-semibold">Arrecadação – Galeria</h1>
+            <div className="ml-auto flex items-center gap-2 text-sm">
+              <span
+                className={["text-xs", !sync.online ? "text-amber-600" : myPending ? "text-neutral-600" : "text-neutral-400"].join(" ")}
+                title="Estado da sincronização"
+              >
+                {!sync.online
+                  ? `Offline${myPending ? ` · ${myPending} por enviar` : ""}`
+                  : myPending
+                    ? `A enviar ${myPending}…`
+                    : "Sincronizado"}
+              </span>
+              <span className="text-neutral-600">
+                {me.name}{me.admin && <span className="ml-1 px-2 py-0.5 rounded-full text-xs border">admin</span>}
+              </span>
+              <button onClick={() => setHistoryView({})} className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50">
+                Atividade
+              </button>
+              <button onClick={() => setShowExport(true)} className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50">
+                Exportar
+              </button>
+              <button onClick={() => setShowDigest(true)} className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50">
+                Resumo{newsCount > 0 && ` (${newsCount})`}
+              </button>
+              <button onClick={() => setShowFairness(true)} className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50">
+                Equilíbrio
+              </button>
+              <button onClick={toggleAdmin} className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50">
+                {me.admin ? "Sair de admin" : "Modo admin"}
+              </button>
+              <button onClick={signOut} className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50">
+                Trocar
+              </button>
+            </div>
+          </div>
 
           {/* Controles (um por linha) */}
           <div className="mt-3 space-y-3 max-w-xl">
@@ -200,7 +586,7 @@ export default function App() {
                 className="w-full px-3 py-2 border rounded-xl text-sm"
                 placeholder="Ex.: cadeirão da sala"
                 value={q}
-                onChange={e => { setQ(e.target.value); setPage(1); }}
+                onChange={e => setView({ q: e.target.value }, "replace")}
               />
             </label>
 
@@ -210,67 +596,204 @@ export default function App() {
               <select
                 className="w-full px-3 py-2 border rounded-xl text-sm"
                 value={ownerFilter}
-                onChange={e => { setOwnerFilter(e.target.value); setPage(1); }}
+                onChange={e => setView({ ownerFilter: e.target.value })}
               >
                 <option value="todos">Todos</option>
                 <option value="__none__">Sem dono</option>
-                {OWNERS.map(o => (
+                {me.admin && <option value="__archived__">Arquivados</option>}
+                {allNames.map(o => (
                   <option key={o} value={o}>{o}</option>
                 ))}
               </select>
             </label>
 
+            {/* Divisão e categoria, com contagens */}
+            <div className="flex gap-2">
+              <label className="block w-1/2">
+                <span className="block text-sm text-neutral-700 mb-1">Divisão</span>
+                <select
+                  className="w-full px-3 py-2 border rounded-xl text-sm"
+                  value={locationFilter}
+                  onChange={e => setView({ location: e.target.value })}
+                >
+                  <option value="todas">Todas</option>
+                  <option value="__none__">Sem divisão ({facets.noLocation})</option>
+                  {facets.locations.map(f => (
+                    <option key={f.value} value={f.value}>{f.value} ({f.count})</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block w-1/2">
+                <span className="block text-sm text-neutral-700 mb-1">Categoria</span>
+                <select
+                  className="w-full px-3 py-2 border rounded-xl text-sm"
+                  value={categoryFilter}
+                  onChange={e => setView({ category: e.target.value })}
+                >
+                  <option value="todas">Todas</option>
+                  <option value="__none__">Sem categoria ({facets.noCategory})</option>
+                  {facets.categories.map(f => (
+                    <option key={f.value} value={f.value}>{f.value} ({f.count})</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* Etiquetas (todas as escolhidas têm de estar no item) */}
+            {facets.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {facets.tags.map(f => {
+                  const on = tagFilter.includes(f.value);
+                  return (
+                    <button
+                      key={f.value}
+                      className={[
+                        "px-2 py-0.5 rounded-full text-xs border",
+                        on ? "bg-neutral-900 text-white border-neutral-900" : "hover:bg-neutral-50",
+                      ].join(" ")}
+                      onClick={() => {
+                        setView({ tags: on ? tagFilter.filter(t => t !== f.value) : [...tagFilter, f.value] });
+                      }}
+                    >
+                      #{f.value} ({f.count})
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Novidades desde a última visita */}
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={onlyNews}
+                onChange={e => setView({ onlyNews: e.target.checked })}
+              />
+              Novidades ({newsCount})
+            </label>
+
+            {/* Seleção múltipla */}
+            <button
+              onClick={() => (selecting ? exitSelection() : setSelecting(true))}
+              className={[
+                "px-3 py-2 border rounded-xl text-sm",
+                selecting ? "bg-neutral-900 text-white" : "hover:bg-neutral-50",
+              ].join(" ")}
+            >
+              {selecting ? "Terminar seleção" : "Selecionar vários"}
+            </button>
+
             {/* Só sem título */}
             <label className="flex items-center gap-2 text-sm">
               <input
                 type="checkbox"
                 checked={onlyUntitled}
-                onChange={e => { setOnlyUntitled(e.target.checked); setPage(1); }}
+                onChange={e => setView({ onlyUntitled: e.target.checked })}
               />
               Só sem título
             </label>
 
-            {/* Importar links (linha própria) */}
-            <div className="flex gap-2">
+            {/* Ações de admin (linha própria) */}
+            {me.admin && <div className="flex gap-2">
               <button
                 onClick={() => setShowImport(true)}
                 className="px-3 py-2 border rounded-xl text-sm hover:bg-neutral-50"
               >
                 Importar links
               </button>
-            </div>
+              <button
+                onClick={() => setShowAllocation(true)}
+                className="px-3 py-2 border rounded-xl text-sm hover:bg-neutral-50"
+              >
+                Atribuir disputados
+              </button>
+              <button
+                onClick={() => setShowPeople(true)}
+                className="px-3 py-2 border rounded-xl text-sm hover:bg-neutral-50"
+              >
+                Pessoas
+              </button>
+              <button
+                onClick={() => setShowBroken(true)}
+                className="px-3 py-2 border rounded-xl text-sm hover:bg-neutral-50"
+              >
+                Imagens partidas
+              </button>
+            </div>}
           </div>
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto p-4">
-        {loading ? (
+      <main className={["max-w-7xl mx-auto p-4", selecting ? "pb-48" : ""].join(" ")}>
+        {query.loading && filtered.length === 0 ? (
           <div className="py-24 text-center text-neutral-500">A carregar…</div>
         ) : (
           <>
-            {pageItems.length === 0 ? (
+            {filtered.length === 0 ? (
               <div className="py-24 text-center text-neutral-500">Sem resultados.</div>
             ) : (
-              <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4">
-                {pageItems.map((item, idx) => (
-                  <div key={item.id} className="bg-white rounded-2xl shadow-card overflow-hidden border">
-                    <div className="aspect-[4/3] bg-neutral-100 overflow-hidden">
-                      <img
-                        src={item.image_url}
+              <VirtualGrid
+                items={filtered}
+                getKey={item => item.id}
+                onEndReached={query.loadMore}
+                renderItem={item => (
+                  <div
+                    className={[
+                      "bg-white rounded-2xl shadow-card overflow-hidden border",
+                      selected.includes(item.id) ? "ring-2 ring-neutral-900"
+                        : isContestingMine(item, me.name) ? "ring-2 ring-amber-400" : "",
+                    ].join(" ")}
+                  >
+                    <div className="relative aspect-[4/3] bg-neutral-100 overflow-hidden">
+                      {(() => {
+                        const status = newsStatus(item, since, me.name);
+                        if (!status) return null;
+                        return (
+                          <span
+                            className={[
+                              "absolute top-2 left-2 px-2 py-0.5 rounded-full text-xs text-white",
+                              status === "new" ? "bg-green-600" : "bg-blue-600",
+                            ].join(" ")}
+                          >
+                            {status === "new" ? "Novo" : "Alterado"}
+                          </span>
+                        );
+                      })()}
+                      {selecting && (
+                        <input
+                          type="checkbox"
+                          className="absolute top-2 right-2 w-5 h-5"
+                          checked={selected.includes(item.id)}
+                          onChange={() => {}}
+                          onClick={e => selectItem(item.id, e.shiftKey)}
+                          aria-label="Selecionar"
+                        />
+                      )}
+                      <ItemImage
+                        url={item.image_url}
                         alt={item.title || "Imagem"}
-                        className="w-full h-full object-cover cursor-zoom-in select-none"
+                        width={1200}
+                        cache
+                        className={[
+                          "w-full h-full object-cover select-none",
+                          selecting ? "cursor-pointer" : "cursor-zoom-in",
+                        ].join(" ")}
                         draggable={false}
-                        referrerPolicy="no-referrer"
-                        onClick={() => setLightboxIndex((page - 1) * PAGE_SIZE + idx)}
-                        onError={e => {
-                          const el = e.currentTarget as HTMLImageElement;
-                          const m = item.image_url.match(/id=([^&]+)/);
-                          if (m && m[1]) el.src = `https://lh3.googleusercontent.com/d/${m[1]}=w1200`;
-                        }}
+                        onClick={e => (selecting
+                          ? selectItem(item.id, e.shiftKey)
+                          : openItem(item.id))}
+                        onBroken={() => reportBroken(item)}
                       />
                     </div>
 
                     <div className="p-3 space-y-3">
+                      {/* Disputado: o item é meu e há mais interessados */}
+                      {isContestingMine(item, me.name) && (
+                        <div className="px-3 py-2 rounded-xl bg-amber-50 text-amber-800 text-sm">
+                          Também querem: <strong>{item.also_want.filter(n => n !== me.name).join(", ")}</strong>
+                        </div>
+                      )}
+
                       {/* Título */}
                       <input
                         defaultValue={item.title || ""}
@@ -284,19 +807,49 @@ export default function App() {
 
                       {/* Dono */}
                       <select
-                        className="w-full px-3 py-2 border rounded-xl text-sm"
+                        className="w-full px-3 py-2 border rounded-xl text-sm disabled:bg-neutral-50"
                         value={item.owner || "__none__"}
+                        disabled={!canSetOwner(me, item.owner, null) && !canSetOwner(me, item.owner, me.name)}
                         onChange={e => {
                           const newOwner = e.target.value === "__none__" ? null : e.target.value;
-                          let nextAlso = (item.also_want || []).filter(n => n !== newOwner);
-                          nextAlso = sanitizeInterested(nextAlso);
-                          updateItem(item.id, { owner: newOwner, also_want: nextAlso });
+                          if (!canSetOwner(me, item.owner, newOwner)) return;
+                          updateItem(item.id, ownerChangePatch(item, newOwner, allNames));
                         }}
                       >
                         <option value="__none__">Sem dono</option>
-                        {OWNERS.map(o => <option key={o} value={o}>{o}</option>)}
+                        {(item.owner && !owners.includes(item.owner) ? [...owners, item.owner] : owners)
+                          .filter(o => o === item.owner || canSetOwner(me, item.owner, o))
+                          .map(o => <option key={o} value={o}>{o}</option>)}
                       </select>
 
+                      {/* Divisão, categoria e etiquetas */}
+                      <ItemFacetsEditor item={item} onChange={patch => updateItem(item.id, patch)} />
+
+                      {/* Valor estimado (só o admin altera) */}
+                      {me.admin ? (
+                        <label className="flex items-center gap-2 text-sm">
+                          <span className="text-neutral-700">Valor estimado (€)</span>
+                          <input
+                            key={`value-${item.estimated_value}`}
+                            type="number"
+                            min={0}
+                            step="any"
+                            inputMode="decimal"
+                            defaultValue={item.estimated_value ?? ""}
+                            placeholder="—"
+                            className="w-28 px-3 py-2 border rounded-xl text-sm"
+                            onBlur={e => {
+                              const raw = e.target.value.trim();
+                              const val = raw === "" ? null : Number(raw);
+                              if (val !== null && (!Number.isFinite(val) || val < 0)) return alert("Valor inválido.");
+                              if (val !== item.estimated_value) updateItem(item.id, { estimated_value: val });
+                            }}
+                          />
+                        </label>
+                      ) : item.estimated_value != null && (
+                        <div className="text-sm text-neutral-700">Valor estimado: {formatEuros(item.estimated_value)}</div>
+                      )}
+
                       {/* Interessados (eu também quero) */}
                       <div className="space-y-2">
                         <div className="text-sm text-neutral-700">Interessados</div>
@@ -312,16 +865,18 @@ export default function App() {
                                 className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs border"
                               >
                                 {name}
-                                <button
-                                  className="text-neutral-500 hover:text-neutral-800"
-                                  onClick={() => {
-                                    const next = sanitizeInterested(item.also_want.filter(n => n !== name));
-                                    updateItem(item.id, { also_want: next });
-                                  }}
-                                  title="Remover"
-                                >
-                                  ×
-                                </button>
+                                {canToggleInterest(me, name) && (
+                                  <button
+                                    className="text-neutral-500 hover:text-neutral-800"
+                                    onClick={() => {
+                                      const next = sanitizeInterested(item.also_want.filter(n => n !== name), allNames);
+                                      updateItem(item.id, { also_want: next });
+                                    }}
+                                    title="Remover"
+                                  >
+                                    ×
+                                  </button>
+                                )}
                               </span>
                             ))
                           )}
@@ -335,18 +890,18 @@ export default function App() {
                             onChange={e => {
                               const sel = e.target.value;
                               if (!sel) return;
-                              if (sel === (item.owner || "")) { e.currentTarget.value = ""; return; }
+                              if (sel === (item.owner || "") || !canToggleInterest(me, sel)) { e.currentTarget.value = ""; return; }
                               const curr = item.also_want;
                               if (!curr.includes(sel)) {
-                                const next = sanitizeInterested([...curr, sel]);
+                                const next = sanitizeInterested([...curr, sel], allNames);
                                 updateItem(item.id, { also_want: next });
                               }
                               e.currentTarget.value = "";
                             }}
                           >
                             <option value="">Adicionar interessado…</option>
-                            {OWNERS
-                              .filter(o => o !== (item.owner || "") && !item.also_want.includes(o))
+                            {owners
+                              .filter(o => o !== (item.owner || "") && !item.also_want.includes(o) && canToggleInterest(me, o))
                               .map(o => <option key={o} value={o}>{o}</option>)
                             }
                           </select>
@@ -354,127 +909,197 @@ export default function App() {
                       </div>
 
                       {/* Metadados */}
-                      <div className="text-xs text-neutral-500 flex justify-between">
+                      <div className="text-xs text-neutral-500 flex justify-between items-center gap-2">
                         <span>{item.owner || "Sem dono"}</span>
-                        <span>{new Date(item.updated_at).toLocaleDateString()}</span>
+                        {(() => {
+                          const { total, unread } = commentCounts.get(item.id) ?? { total: 0, unread: 0 };
+                          return (
+                            <button
+                              className="hover:text-neutral-800 hover:underline"
+                              onClick={() => { setLightboxPanel("comments"); openItem(item.id); }}
+                              title="Ver comentários"
+                            >
+                              {total === 1 ? "1 comentário" : `${total} comentários`}
+                              {unread > 0 && (
+                                <span className="ml-1 px-1.5 py-0.5 rounded-full bg-amber-500 text-white">{unread} por ler</span>
+                              )}
+                            </button>
+                          );
+                        })()}
+                        <button
+                          className="hover:text-neutral-800 hover:underline"
+                          onClick={() => copyLink(item.id)}
+                          title="Copiar link para este item"
+                        >
+                          Copiar link
+                        </button>
+                        <button
+                          className="hover:text-neutral-800 hover:underline"
+                          onClick={() => setHistoryView({ itemId: item.id })}
+                          title="Ver histórico"
+                        >
+                          {item.updated_by ? `${item.updated_by} · ` : ""}
+                          {new Date(item.updated_at).toLocaleDateString()}
+                        </button>
                       </div>
+
+                      {/* Ações de admin */}
+                      {me.admin && (
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          {item.archived_at ? (
+                            <button className="px-2 py-1 border rounded-lg hover:bg-neutral-50" onClick={() => restoreItem(item)}>
+                              Restaurar
+                            </button>
+                          ) : (
+                            <button className="px-2 py-1 border rounded-lg hover:bg-neutral-50" onClick={() => archiveItem(item)}>
+                              Arquivar
+                            </button>
+                          )}
+                          <button className="px-2 py-1 border rounded-lg hover:bg-neutral-50" onClick={() => setMergeItemId(item.id)}>
+                            Juntar…
+                          </button>
+                          <button className="px-2 py-1 border rounded-lg text-red-600 hover:bg-red-50" onClick={() => deleteItem(item)}>
+                            Apagar
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
-                ))}
-              </div>
+                )}
+              />
             )}
 
-            <div className="flex justify-center items-center gap-3 mt-6">
-              <button
-                className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
-                onClick={() => setPage(p => Math.max(1, p - 1))}
-                disabled={page === 1}
-              >Anterior</button>
-              <span className="text-sm text-neutral-600">Página {page} de {totalPages}</span>
-              <button
-                className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
-                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                disabled={page === totalPages}
-              >Seguinte</button>
+            <div className="py-6 text-center text-sm text-neutral-500">
+              {query.loading ? "A carregar…" : `${filtered.length} de ${query.total} itens`}
             </div>
           </>
         )}
       </main>
 
-      {/* LIGHTBOX (sem zoom, altura do ecrã) */}
-      {currentItem && (
-        <div
-          className="fixed inset-0 z-50 bg-black/90 text-white overscroll-contain"
-          onKeyDown={onKeyDown}
-          tabIndex={0}
-        >
-          <button
-            onClick={closeLightbox}
-            className="absolute top-3 right-3 z-10 px-3 py-2 rounded bg-white text-black text-sm"
-            aria-label="Fechar"
-          >
-            Fechar
-          </button>
-
-          {/* zona clicável para fechar */}
-          <div className="absolute inset-0" onClick={closeLightbox} />
-
-          <div className="absolute inset-0 flex items-center justify-center p-0">
-            <img
-              src={currentItem.image_url}
-              alt={currentItem.title || "Imagem"}
-              draggable={false}
-              className="max-h-screen w-auto max-w-[100vw] object-contain select-none pointer-events-none"
-              onError={e => {
-                const el = e.currentTarget as HTMLImageElement;
-                const m = currentItem.image_url.match(/id=([^&]+)/);
-                if (m && m[1]) el.src = `https://lh3.googleusercontent.com/d/${m[1]}=w2000`;
-              }}
-            />
-          </div>
-
-          {/* legenda/top bar */}
-          <div className="absolute top-3 left-3 right-20 flex items-center gap-2">
-            <div className="px-3 py-1 rounded bg-white/10 text-xs">
-              {currentItem.title || "Sem título"} {currentItem.owner ? `• ${currentItem.owner}` : ""}
-            </div>
-            <div className="ml-auto flex items-center gap-2 text-xs opacity-80">
-              <span>Toca fora da imagem para fechar</span>
-            </div>
-          </div>
+      {/* sugestões para os campos de divisão, categoria e etiquetas */}
+      <datalist id={LOCATIONS_LIST}>{known.locations.map(v => <option key={v} value={v} />)}</datalist>
+      <datalist id={CATEGORIES_LIST}>{known.categories.map(v => <option key={v} value={v} />)}</datalist>
+      <datalist id={TAGS_LIST}>{known.tags.map(v => <option key={v} value={v} />)}</datalist>
 
-          {/* navegação simples */}
-          <button
-            onClick={(e) => { e.stopPropagation(); setLightboxIndex(i => (i! - 1 + filtered.length) % filtered.length); }}
-            className="absolute left-2 top-1/2 -translate-y-1/2 px-3 py-2 bg-white/15 hover:bg-white/25 rounded"
-            aria-label="Anterior"
-          >&larr;</button>
-          <button
-            onClick={(e) => { e.stopPropagation(); setLightboxIndex(i => (i! + 1) % filtered.length); }}
-            className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-2 bg-white/15 hover:bg-white/25 rounded"
-            aria-label="Seguinte"
-          >&rarr;</button>
-        </div>
+      {/* LIGHTBOX (zoom, swipe e edição rápida) */}
+      {currentItem && (
+        <Lightbox
+          item={currentItem}
+          me={me}
+          owners={owners}
+          allNames={allNames}
+          preload={neighbourIndexes(lightboxIndex, filtered.length, 2).map(i => filtered[i].image_url)}
+          onStep={lightboxIndex >= 0 ? stepLightbox : null}
+          onClose={closeLightbox}
+          onCopyLink={() => copyLink(currentItem.id)}
+          onUpdate={patch => updateItem(currentItem.id, patch)}
+          thread={currentThread}
+          lastRead={lightboxLastRead}
+          onSendComment={body => sendComment(currentItem.id, body)}
+          onBroken={() => reportBroken(currentItem)}
+          panel={lightboxPanel}
+          onPanel={setLightboxPanel}
+        />
       )}
 
-      {showImport && (
+      {needsInventory && !inventoryReady && (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
-          <div className="bg-white w-full max-w-2xl rounded-2xl p-4 space-y-3">
-            <h2 className="text-lg font-semibold">Importar links de imagens</h2>
-            <p className="text-sm text-neutral-600">
-              Cole um link por linha. Links do Google Drive no formato <code>file/d/ID/view</code> são convertidos automaticamente.
-            </p>
-            <div className="flex gap-2 items-center">
-              <input
-                type="password"
-                placeholder="PIN de admin"
-                className="px-3 py-2 border rounded-xl text-sm w-40"
-                value={pin}
-                onChange={e => setPin(e.target.value)}
-              />
-              <span className="text-xs text-neutral-500">Definido via VITE_ADMIN_PIN</span>
-            </div>
-            <textarea
-              rows={10}
-              className="w-full px-3 py-2 border rounded-xl text-sm"
-              placeholder="https://drive.google.com/file/d/FILE_ID/view?usp=sharing"
-              value={importText}
-              onChange={e => setImportText(e.target.value)}
-            />
-            <div className="flex justify-end gap-2">
-              <button className="px-3 py-2 border rounded-xl text-sm" onClick={() => setShowImport(false)}>Cancelar</button>
-              <button
-                className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
-                onClick={handleImport}
-                disabled={importing}
-              >
-                {importing ? "A importar…" : "Importar"}
-              </button>
-            </div>
-          </div>
+          <div className="bg-white rounded-2xl p-4 text-sm text-neutral-500">A carregar…</div>
         </div>
       )}
 
+      {showImport && inventoryReady && (
+        <ImportDialog
+          items={items}
+          knownNames={allNames}
+          onImport={handleImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {showAllocation && inventoryReady && (
+        <AllocationPanel
+          items={activeItems}
+          owners={allNames}
+          onApply={applyAllocation}
+          onClose={() => setShowAllocation(false)}
+        />
+      )}
+
+      {selecting && (
+        <BatchBar
+          count={selected.length}
+          filteredCount={query.total}
+          admin={me.admin}
+          me={me.name}
+          owners={owners}
+          onSelectAll={selectAllFiltered}
+          onClear={() => { setSelected([]); setAnchor(null); }}
+          onExit={exitSelection}
+          onRun={runBatch}
+        />
+      )}
+
+      {showDigest && inventoryReady && (
+        <DigestPanel
+          me={me.name}
+          since={since}
+          items={activeItems}
+          onMarkSeen={markAllSeen}
+          onBrokenImage={reportBroken}
+          onClose={() => setShowDigest(false)}
+        />
+      )}
+
+      {showFairness && inventoryReady && (
+        <FairnessDashboard
+          items={activeItems}
+          owners={owners}
+          canApply={me.admin}
+          onApply={applySuggestion}
+          onClose={() => setShowFairness(false)}
+        />
+      )}
+
+      {showBroken && inventoryReady && (
+        <BrokenImagesPanel
+          items={items}
+          onRelink={relinkImage}
+          onDismiss={dismissBroken}
+          onClose={() => setShowBroken(false)}
+        />
+      )}
+
+      {showPeople && (
+        <PeopleAdmin people={people} token={me.token} onClose={() => setShowPeople(false)} />
+      )}
+
+      {mergeItemId && inventoryReady && items.some(i => i.id === mergeItemId) && (
+        <MergeDialog
+          item={items.find(i => i.id === mergeItemId)!}
+          candidates={items}
+          onMerge={(dropId, primaryUrl) => mergeItems(mergeItemId, dropId, primaryUrl)}
+          onBrokenImage={reportBroken}
+          onClose={() => setMergeItemId(null)}
+        />
+      )}
+
+      <ConflictDialog
+        conflicts={sync.conflicts}
+        titleOf={id => (filtered.find(i => i.id === id) ?? items.find(i => i.id === id))?.title || "Sem título"}
+        onResolve={sync.resolveConflict}
+      />
+
+      {historyView && inventoryReady && (
+        <HistoryPanel
+          me={me}
+          items={items}
+          itemId={historyView.itemId}
+          onUndo={updateItem}
+          onClose={() => setHistoryView(null)}
+        />
+      )}
+
       <footer className="text-center text-xs text-neutral-500 py-8">
         Clica numa imagem para ver em ecrã. Altura ajusta-se ao telemóvel.
       </footer>
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { BatchAction, BatchSummary } from "./batch";
+
+type Props = {
+  count: number;            // itens selecionados
+  filteredCount: number;    // itens no filtro atual
+  admin: boolean;
+  me: string;
+  owners: string[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onExit: () => void;
+  onRun: (action: BatchAction) => Promise<BatchSummary | null>;
+};
+
+export default function BatchBar({ count, filteredCount, admin, me, owners, onSelectAll, onClear, onExit, onRun }: Props) {
+  const [owner, setOwner] = useState("");
+  const [person, setPerson] = useState("");
+  const [prefix, setPrefix] = useState("");
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+
+  // sem admin só se mexe em si próprio
+  const names = admin ? owners : [me];
+
+  async function run(action: BatchAction) {
+    if (!count || running) return;
+    if (action.kind === "archive" && !confirm(`Arquivar ${count} itens?`)) return;
+    setRunning(true);
+    setSummary(null);
+    const result = await onRun(action);
+    setRunning(false);
+    if (result) setSummary(result);
+  }
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-30 bg-white border-t shadow-card">
+      <div className="max-w-7xl mx-auto p-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <strong>{count} selecionados</strong>
+          <button className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50" onClick={onSelectAll}>
+            Selecionar os {filteredCount} do filtro
+          </button>
+          <button className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50" onClick={onClear} disabled={!count}>
+            Limpar
+          </button>
+          <span className="text-xs text-neutral-500">Shift-clique seleciona um intervalo.</span>
+          <button className="ml-auto px-3 py-1 border rounded-lg text-xs hover:bg-neutral-50" onClick={onExit}>
+            Terminar seleção
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {/* Dono */}
+          <select className="px-3 py-2 border rounded-xl text-sm" value={owner} onChange={e => setOwner(e.target.value)}>
+            <option value="">Dono…</option>
+            <option value="__none__">Sem dono</option>
+            {names.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+          <button
+            className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
+            disabled={running || !count || !owner}
+            onClick={() => run({ kind: "owner", owner: owner === "__none__" ? null : owner })}
+          >
+            Definir dono
+          </button>
+
+          {/* Interessados */}
+          <select className="px-3 py-2 border rounded-xl text-sm" value={person} onChange={e => setPerson(e.target.value)}>
+            <option value="">Interessado…</option>
+            {names.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+          <button
+            className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
+            disabled={running || !count || !person}
+            onClick={() => run({ kind: "addInterest", name: person })}
+          >
+            Adicionar
+          </button>
+          <button
+            className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
+            disabled={running || !count || !person}
+            onClick={() => run({ kind: "removeInterest", name: person })}
+          >
+            Remover
+          </button>
+
+          {/* Prefixo do título */}
+          <input
+            className="w-40 px-3 py-2 border rounded-xl text-sm"
+            placeholder="Prefixo do título"
+            value={prefix}
+            onChange={e => setPrefix(e.target.value)}
+          />
+          <button
+            className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
+            disabled={running || !count || !prefix.trim()}
+            onClick={() => run({ kind: "titlePrefix", prefix })}
+          >
+            Aplicar prefixo
+          </button>
+
+          {admin && (
+            <button
+              className="px-3 py-2 border rounded-xl text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+              disabled={running || !count}
+              onClick={() => run({ kind: "archive" })}
+            >
+              Arquivar
+            </button>
+          )}
+
+          {running && <span className="text-sm text-neutral-500">A aplicar…</span>}
+        </div>
+
+        {summary && (
+          <div className="text-sm border rounded-xl p-2 space-y-1">
+            <div className="flex items-center gap-3">
+              <span className="text-green-700">{summary.ok} alterados</span>
+              {summary.unchanged > 0 && <span className="text-neutral-500">{summary.unchanged} já estavam assim</span>}
+              {summary.failed.length > 0 && <span className="text-red-600">{summary.failed.length} falharam</span>}
+              <button className="ml-auto text-xs text-neutral-500 hover:text-neutral-800" onClick={() => setSummary(null)}>
+                Fechar
+              </button>
+            </div>
+            {summary.failed.length > 0 && (
+              <ul className="text-xs text-red-600 max-h-24 overflow-y-auto">
+                {summary.failed.map(f => (
+                  <li key={f.id}>{f.title || "Sem título"}: {f.error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
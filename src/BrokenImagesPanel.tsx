@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from "react";
+import type { Item } from "./types";
+import { BrokenImage, fetchBrokenImages } from "./brokenImages";
+import { normalizeImageUrl } from "./importer";
+import ItemImage from "./ItemImage";
+
+type Props = {
+  items: Item[];
+  onRelink: (itemId: string, imageUrl: string) => Promise<boolean>;
+  onDismiss: (itemId: string) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export default function BrokenImagesPanel({ items, onRelink, onDismiss, onClose }: Props) {
+  const [reports, setReports] = useState<BrokenImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [links, setLinks] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    fetchBrokenImages()
+      .then(list => { if (active) setReports(list); })
+      .catch(err => alert("Erro ao carregar imagens partidas: " + (err?.message || err)))
+      .finally(() => { if (active) setLoading(false); });
+    return () => { active = false; };
+  }, []);
+
+  // reportes de um link que o item já não usa deixam de contar
+  const byId = new Map(items.map(i => [i.id, i]));
+  const rows = reports
+    .map(r => ({ report: r, item: byId.get(r.item_id) }))
+    .filter((r): r is { report: BrokenImage; item: Item } => !!r.item && r.item.image_url === r.report.image_url);
+
+  async function run(itemId: string, action: () => Promise<boolean>) {
+    setBusy(itemId);
+    const ok = await action();
+    setBusy(null);
+    if (ok) setReports(prev => prev.filter(r => r.item_id !== itemId));
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">Imagens partidas ({rows.length})</h2>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+        </div>
+        <p className="text-sm text-neutral-600">
+          Itens cuja imagem não carregou em nenhuma das fontes no browser de alguém. Cole um link novo
+          (do Drive ou outro) para re-ligar, ou dispense se a imagem já voltou a aparecer.
+        </p>
+
+        {loading ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">A carregar…</div>
+        ) : rows.length === 0 ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">Nenhuma imagem partida.</div>
+        ) : (
+          <ul className="space-y-3">
+            {rows.map(({ report, item }) => {
+              const link = links[item.id] ?? "";
+              return (
+                <li key={item.id} className="flex gap-3 border rounded-xl p-2">
+                  <ItemImage
+                    url={item.image_url}
+                    alt={item.title || "Imagem"}
+                    width={200}
+                    loading="lazy"
+                    className="w-20 h-20 object-cover rounded-lg bg-neutral-100 shrink-0"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1 text-sm">
+                    <div className="font-medium truncate">{item.title || "Sem título"} · {item.owner || "Sem dono"}</div>
+                    <div className="text-xs text-neutral-500">
+                      {report.reported_by} · {new Date(report.reported_at).toLocaleString()}
+                    </div>
+                    <div className="text-xs text-neutral-500 break-all">{item.image_url}</div>
+                    <div className="flex flex-wrap gap-2">
+                      <input
+                        className="flex-1 min-w-[12rem] px-3 py-2 border rounded-xl text-sm"
+                        placeholder="Novo link da imagem"
+                        value={link}
+                        onChange={e => setLinks(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      />
+                      <button
+                        className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+                        disabled={busy !== null || !link.trim()}
+                        onClick={() => run(item.id, () => onRelink(item.id, normalizeImageUrl(link)))}
+                      >
+                        {busy === item.id ? "A guardar…" : "Re-ligar"}
+                      </button>
+                      <button
+                        className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
+                        disabled={busy !== null}
+                        onClick={() => run(item.id, () => onDismiss(item.id))}
+                      >
+                        Dispensar
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
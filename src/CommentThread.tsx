@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { Comment } from "./comments";
+
+type Props = {
+  thread: Comment[];
+  me: string;
+  lastRead: number;   // id do último comentário lido antes de abrir
+  onSend: (body: string) => Promise<boolean>;
+};
+
+export default function CommentThread({ thread, me, lastRead, onSend }: Props) {
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [thread.length]);
+
+  async function send() {
+    if (!body.trim() || sending) return;
+    setSending(true);
+    const ok = await onSend(body);
+    setSending(false);
+    if (ok) setBody("");
+  }
+
+  return (
+    <div className="space-y-2">
+      {thread.length === 0 ? (
+        <div className="text-sm text-neutral-500">Ainda sem comentários.</div>
+      ) : (
+        <ul className="space-y-2">
+          {thread.map(c => {
+            const unread = c.id > lastRead && c.author !== me;
+            return (
+              <li key={c.id} className={["text-sm rounded-xl px-3 py-2", unread ? "bg-amber-50" : "bg-neutral-50"].join(" ")}>
+                <div className="text-xs text-neutral-500">
+                  <strong className="text-neutral-700">{c.author}</strong> · {new Date(c.created_at).toLocaleString()}
+                  {unread && <span className="ml-1 text-amber-700">· novo</span>}
+                </div>
+                <div className="whitespace-pre-wrap break-words">{c.body}</div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div ref={endRef} />
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          rows={2}
+          className="flex-1 px-3 py-2 border rounded-xl text-sm"
+          placeholder="Escrever comentário…"
+          value={body}
+          onChange={e => setBody(e.target.value)}
+          onKeyDown={e => {
+            // as setas e o Esc não devem mudar de imagem enquanto se escreve
+            if (e.key !== "Escape") e.stopPropagation();
+            if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); send(); }
+          }}
+        />
+        <button
+          className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+          disabled={sending || !body.trim()}
+          onClick={send}
+        >
+          {sending ? "A enviar…" : "Enviar"}
+        </button>
+      </div>
+    </div>
+  );
+}
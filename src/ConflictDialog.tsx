@@ -0,0 +1,50 @@
+import React from "react";
+import type { Conflict } from "./sync";
+import { FIELD_LABELS, formatValue } from "./history";
+
+type Props = {
+  conflicts: Conflict[];
+  titleOf: (itemId: string) => string;
+  onResolve: (conflict: Conflict, keepMine: boolean) => void;
+};
+
+export default function ConflictDialog({ conflicts, titleOf, onResolve }: Props) {
+  const c = conflicts[0];
+  if (!c) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white w-full max-w-md rounded-2xl p-4 space-y-3">
+        <h2 className="text-lg font-semibold">Conflito de edição</h2>
+        <p className="text-sm text-neutral-600">
+          Enquanto a tua alteração esperava para ser enviada, {c.by || "outra pessoa"} mudou o campo{" "}
+          <strong>{FIELD_LABELS[c.field]}</strong> de <strong>{titleOf(c.itemId)}</strong>.
+        </p>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div className="border rounded-xl p-2">
+            <div className="text-xs text-neutral-500">O teu valor</div>
+            {formatValue(c.field, c.mine)}
+          </div>
+          <div className="border rounded-xl p-2">
+            <div className="text-xs text-neutral-500">Valor de {c.by || "outra pessoa"}</div>
+            {formatValue(c.field, c.theirs)}
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={() => onResolve(c, false)}>
+            Aceitar o deles
+          </button>
+          <button
+            className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white"
+            onClick={() => onResolve(c, true)}
+          >
+            Manter o meu
+          </button>
+        </div>
+        {conflicts.length > 1 && (
+          <p className="text-xs text-neutral-500">Mais {conflicts.length - 1} conflito(s) por resolver.</p>
+        )}
+      </div>
+    </div>
+  );
+}
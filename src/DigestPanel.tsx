@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Item } from "./types";
+import { HistoryEntry, describeChange, fetchChangesSince } from "./history";
+import { DigestKind, buildDigest } from "./news";
+import ItemImage from "./ItemImage";
+
+type Props = {
+  me: string;
+  since: string | null;
+  items: Item[];
+  onMarkSeen: () => void;
+  onBrokenImage: (item: Item) => void;
+  onClose: () => void;
+};
+
+const KIND_LABEL: Record<DigestKind, string> = {
+  contested: "Querem o que é teu",
+  imported: "Itens novos",
+  reassigned: "Mudanças de dono",
+  edited: "Outras alterações",
+};
+
+const KIND_CLASS: Record<DigestKind, string> = {
+  contested: "text-amber-700",
+  imported: "text-green-700",
+  reassigned: "text-neutral-800",
+  edited: "text-neutral-600",
+};
+
+export default function DigestPanel({ me, since, items, onMarkSeen, onBrokenImage, onClose }: Props) {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(!!since);
+
+  useEffect(() => {
+    if (!since) return;
+    let active = true;
+    setLoading(true);
+    fetchChangesSince(since)
+      .then(list => { if (active) setHistory(list); })
+      .catch(err => alert("Erro ao carregar novidades: " + (err?.message || err)))
+      .finally(() => { if (active) setLoading(false); });
+    return () => { active = false; };
+  }, [since]);
+
+  const digest = useMemo(() => buildDigest(items, history, me, since), [items, history, me, since]);
+  const kinds = (Object.keys(KIND_LABEL) as DigestKind[]).filter(k => digest[k].length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">Novidades</h2>
+          <div className="flex gap-2">
+            {since && (
+              <button className="px-3 py-2 border rounded-xl text-sm" onClick={onMarkSeen}>Marcar tudo como visto</button>
+            )}
+            <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+          </div>
+        </div>
+
+        {!since ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">
+            Primeira visita neste dispositivo: a partir da próxima vês aqui o que mudou entretanto.
+          </div>
+        ) : loading ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">A carregar…</div>
+        ) : kinds.length === 0 ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">
+            Nada de novo desde {new Date(since).toLocaleString()}.
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-neutral-600">Desde {new Date(since).toLocaleString()}.</p>
+            {kinds.map(kind => (
+              <section key={kind} className="space-y-2">
+                <h3 className={["font-medium", KIND_CLASS[kind]].join(" ")}>
+                  {KIND_LABEL[kind]} ({digest[kind].length})
+                </h3>
+                <ul className="divide-y">
+                  {digest[kind].map(({ item, entries }) => (
+                    <li key={item.id} className="py-2 flex gap-3">
+                      <ItemImage
+                        url={item.image_url}
+                        alt={item.title || "Imagem"}
+                        width={200}
+                        loading="lazy"
+                        className="w-16 h-12 object-cover rounded-lg bg-neutral-100 shrink-0"
+                        onBroken={() => onBrokenImage(item)}
+                      />
+                      <div className="text-sm min-w-0">
+                        <div className="font-medium truncate">{item.title || "Sem título"}</div>
+                        {kind === "imported" && entries.length === 0 && (
+                          <div className="text-xs text-neutral-500">Importado a {new Date(item.created_at).toLocaleString()}</div>
+                        )}
+                        {entries.map(e => (
+                          <div key={e.id} className="text-xs">
+                            <span className="text-neutral-500">{e.changed_by || "desconhecido"}:</span>{" "}
+                            {describeChange(e).join("; ")}
+                          </div>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
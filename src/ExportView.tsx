@@ -0,0 +1,101 @@
+import React from "react";
+import type { Item } from "./types";
+import ItemImage from "./ItemImage";
+import {
+  contestedItems,
+  download,
+  exportFilename,
+  groupByOwner,
+  toCsv,
+  toJson,
+  unownedItems,
+} from "./exporter";
+
+type Props = {
+  items: Item[];          // já filtrados
+  totalCount: number;
+  people: string[];
+  onClose: () => void;
+};
+
+function Thumb({ item }: { item: Item }) {
+  return (
+    <div className="break-inside-avoid flex gap-2 items-center border rounded-xl p-2">
+      <ItemImage
+        url={item.image_url}
+        alt={item.title || "Imagem"}
+        width={200}
+        loading="lazy"
+        className="w-16 h-16 object-cover rounded-lg bg-neutral-100 shrink-0"
+      />
+      <div className="text-sm min-w-0">
+        <div className="font-medium truncate">{item.title || "Sem título"}</div>
+        {item.also_want.length > 0 && (
+          <div className="text-xs text-neutral-500">Também querem: {item.also_want.join(", ")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Section({ title, items }: { title: string; items: Item[] }) {
+  return (
+    <section className="break-inside-avoid-page space-y-2">
+      <h2 className="text-lg font-semibold border-b pb-1">
+        {title} <span className="text-sm font-normal text-neutral-500">({items.length})</span>
+      </h2>
+      <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 print:grid-cols-2">
+        {items.map(i => <Thumb key={i.id} item={i} />)}
+      </div>
+    </section>
+  );
+}
+
+export default function ExportView({ items, totalCount, people, onClose }: Props) {
+  const groups = groupByOwner(items, people);
+  const unowned = unownedItems(items);
+  const contested = contestedItems(items);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-4xl mx-auto p-4 space-y-6">
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          <h1 className="text-xl font-semibold mr-auto">Exportar</h1>
+          <button
+            className="px-3 py-2 border rounded-xl text-sm hover:bg-neutral-50"
+            onClick={() => download(exportFilename("csv"), toCsv(items), "text/csv;charset=utf-8")}
+          >
+            CSV
+          </button>
+          <button
+            className="px-3 py-2 border rounded-xl text-sm hover:bg-neutral-50"
+            onClick={() => download(exportFilename("json"), toJson(items), "application/json")}
+          >
+            JSON
+          </button>
+          <button className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white" onClick={() => window.print()}>
+            Imprimir
+          </button>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Voltar</button>
+        </div>
+        <p className="text-sm text-neutral-600 print:hidden">
+          {items.length === totalCount
+            ? `Todos os ${totalCount} itens.`
+            : `${items.length} de ${totalCount} itens (filtros atuais).`}
+        </p>
+
+        <header className="hidden print:block">
+          <h1 className="text-xl font-semibold">Arrecadação – Listas de levantamento</h1>
+          <p className="text-xs text-neutral-500">{new Date().toLocaleString()}</p>
+        </header>
+
+        {groups.map(g => <Section key={g.owner} title={g.owner} items={g.items} />)}
+
+        <div className="space-y-6 border-t pt-6">
+          <Section title="Sem dono" items={unowned} />
+          <Section title="Ainda disputados" items={contested} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from "react";
+import type { Item } from "./types";
+import { Suggestion, balancingSuggestions, equalShare, fairnessRows, formatEuros } from "./fairness";
+
+type Props = {
+  items: Item[];
+  owners: string[];
+  canApply: boolean;   // só o admin passa itens de uma pessoa para outra
+  onApply: (s: Suggestion) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export default function FairnessDashboard({ items, owners, canApply, onApply, onClose }: Props) {
+  const [applying, setApplying] = useState<string | null>(null);
+
+  const rows = useMemo(() => fairnessRows(items, owners), [items, owners]);
+  const share = useMemo(() => equalShare(items, owners), [items, owners]);
+  const suggestions = useMemo(() => balancingSuggestions(items, owners), [items, owners]);
+  const unvalued = items.filter(i => i.estimated_value == null).length;
+  const maxValue = Math.max(share, ...rows.map(r => r.value), 1);
+
+  async function apply(s: Suggestion) {
+    setApplying(`${s.id}:${s.to}`);
+    await onApply(s);
+    setApplying(null);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Equilíbrio da partilha</h2>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+        </div>
+
+        <p className="text-sm text-neutral-600">
+          Parte igual: <strong>{formatEuros(share)}</strong> por pessoa.
+          {unvalued > 0 && <> {unvalued} itens ainda sem valor estimado contam como 0 €.</>}
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="text-sm w-full">
+            <thead>
+              <tr className="text-left text-neutral-600">
+                <th className="py-1 pr-2">Pessoa</th>
+                <th className="py-1 pr-2 text-right">Itens</th>
+                <th className="py-1 pr-2 text-right">Valor</th>
+                <th className="py-1 pr-2 text-right">Interesses</th>
+                <th className="py-1 pr-2 text-right">Diferença</th>
+                <th className="py-1 w-1/3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.name} className="border-t">
+                  <td className="py-1 pr-2">{r.name}</td>
+                  <td className="py-1 pr-2 text-right">{r.count}</td>
+                  <td className="py-1 pr-2 text-right">{formatEuros(r.value)}</td>
+                  <td className="py-1 pr-2 text-right">{r.interests}</td>
+                  <td className={["py-1 pr-2 text-right", r.gap < 0 ? "text-amber-600" : r.gap > 0 ? "text-green-700" : ""].join(" ")}>
+                    {r.gap > 0 ? "+" : ""}{formatEuros(r.gap)}
+                  </td>
+                  <td className="py-1">
+                    {/* barra do valor com a marca da parte igual */}
+                    <div className="relative h-2 rounded-full bg-neutral-100">
+                      <div className="absolute inset-y-0 left-0 rounded-full bg-neutral-400" style={{ width: `${(r.value / maxValue) * 100}%` }} />
+                      <div className="absolute -inset-y-1 w-px bg-neutral-900" style={{ left: `${(share / maxValue) * 100}%` }} />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-medium">Sugestões</h3>
+          {suggestions.length === 0 ? (
+            <div className="text-sm text-neutral-500">
+              Nenhum item disputado com valor estimado aproxima mais os totais.
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {suggestions.map(s => (
+                <li key={`${s.id}:${s.to}`} className="py-2 flex items-center gap-2 text-sm">
+                  <span className="flex-1">
+                    <strong>{s.title || "Sem título"}</strong> ({formatEuros(s.value)}): {s.from || "Sem dono"} → {s.to}
+                    <span className="text-neutral-500"> · aproxima {formatEuros(s.gain)}</span>
+                  </span>
+                  {canApply && (
+                    <button
+                      className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50 disabled:opacity-50"
+                      disabled={applying !== null}
+                      onClick={() => apply(s)}
+                    >
+                      {applying === `${s.id}:${s.to}` ? "A aplicar…" : "Aplicar"}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-neutral-500">
+            Só entram itens com interessados. A sugestão passa o item para quem o quer e mais aproxima todos da parte igual.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { supabase } from "./supabase";
+import { Identity } from "./identity";
+import type { Item } from "./types";
+import {
+  HistoryEntry,
+  TrackedValues,
+  canUndo,
+  describeChange,
+  fetchItemHistory,
+  fetchRecentActivity,
+  undoPatch,
+} from "./history";
+
+type Props = {
+  me: Identity;
+  items: Item[];
+  itemId?: string;   // sem itemId mostra a atividade recente de todos os itens
+  onUndo: (itemId: string, patch: TrackedValues) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export default function HistoryPanel({ me, items, itemId, onUndo, onClose }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [undoing, setUndoing] = useState<number | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    (itemId ? fetchItemHistory(itemId) : fetchRecentActivity())
+      .then(list => { if (active) setEntries(list); })
+      .catch(err => alert("Erro ao carregar histórico: " + (err?.message || err)))
+      .finally(() => { if (active) setLoading(false); });
+
+    const channel = supabase
+      .channel(itemId ? `realtime:item_history:${itemId}` : "realtime:item_history")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "item_history",
+          ...(itemId ? { filter: `item_id=eq.${itemId}` } : {}),
+        },
+        (p: any) => {
+          const row = p.new as HistoryEntry;
+          setEntries(prev => [row, ...prev.filter(e => e.id !== row.id)]);
+        },
+      )
+      .subscribe();
+
+    return () => { active = false; supabase.removeChannel(channel); };
+  }, [itemId]);
+
+  const byId = new Map(items.map(i => [i.id, i]));
+  const item = itemId ? byId.get(itemId) : undefined;
+
+  async function undo(entry: HistoryEntry) {
+    setUndoing(entry.id);
+    await onUndo(entry.item_id, undoPatch(entry));
+    setUndoing(null);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">
+            {itemId ? `Histórico – ${item?.title || "Sem título"}` : "Atividade recente"}
+          </h2>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+        </div>
+
+        {loading ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">A carregar…</div>
+        ) : entries.length === 0 ? (
+          <div className="py-12 text-center text-neutral-500 text-sm">Sem alterações registadas.</div>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-4">
+            {entries.map(entry => {
+              const current = byId.get(entry.item_id);
+              return (
+                <li key={entry.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-neutral-300 border border-white" />
+                  <div className="text-xs text-neutral-500">
+                    {new Date(entry.changed_at).toLocaleString()} · {entry.changed_by || "desconhecido"}
+                    {!itemId && <> · <strong>{current?.title || "Sem título"}</strong></>}
+                  </div>
+                  <ul className="text-sm">
+                    {describeChange(entry).map(line => <li key={line}>{line}</li>)}
+                  </ul>
+                  {canUndo(me, entry, current) && (
+                    <button
+                      className="mt-1 px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50 disabled:opacity-50"
+                      disabled={undoing !== null}
+                      onClick={() => undo(entry)}
+                    >
+                      {undoing === entry.id ? "A desfazer…" : "Desfazer"}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
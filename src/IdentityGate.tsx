@@ -0,0 +1,66 @@
+import React, { useState } from "react";
+import { Identity, TOO_MANY_ATTEMPTS, memberLogin } from "./identity";
+
+type Props = {
+  owners: string[];
+  onIdentified: (identity: Identity) => void;
+};
+
+export default function IdentityGate({ owners, onIdentified }: Props) {
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState("");
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name || !code) return;
+    setChecking(true);
+    setError("");
+    try {
+      const identity = await memberLogin(name, code.trim());
+      if (identity) onIdentified(identity);
+      else setError("Código inválido.");
+    } catch (err: any) {
+      setError(err?.code === TOO_MANY_ATTEMPTS ? err.message : "Erro ao verificar: " + (err?.message || err));
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <form onSubmit={submit} className="bg-white w-full max-w-sm rounded-2xl shadow-card border p-4 space-y-3">
+        <h1 className="text-xl font-semibold">Quem és tu?</h1>
+        <p className="text-sm text-neutral-600">
+          Escolhe o teu nome e introduz o teu código. Fica guardado até fechares o separador.
+        </p>
+        <select
+          className="w-full px-3 py-2 border rounded-xl text-sm"
+          value={name}
+          onChange={e => setName(e.target.value)}
+        >
+          <option value="">Escolher…</option>
+          {owners.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          placeholder="Código"
+          className="w-full px-3 py-2 border rounded-xl text-sm"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          className="w-full px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+          disabled={checking || !name || !code}
+        >
+          {checking ? "A verificar…" : "Entrar"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from "react";
+import { ImportStatus, PlannedRow, parseImportText, planImport } from "./importer";
+
+type Props = {
+  items: { image_url: string; merged_image_urls?: string[] }[];
+  knownNames: string[];
+  onImport: (rows: PlannedRow[]) => Promise<boolean>;
+  onClose: () => void;
+};
+
+const STATUS_LABEL: Record<ImportStatus, string> = {
+  new: "Novo",
+  duplicate: "Duplicado",
+  invalid: "Inválido",
+  unknown_owner: "Pessoa desconhecida",
+};
+
+const STATUS_CLASS: Record<ImportStatus, string> = {
+  new: "text-green-700",
+  duplicate: "text-neutral-500",
+  invalid: "text-red-600",
+  unknown_owner: "text-amber-600",
+};
+
+export default function ImportDialog({ items, knownNames, onImport, onClose }: Props) {
+  const [text, setText] = useState("");
+  const [preview, setPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const plan = useMemo(
+    () => (preview ? planImport(parseImportText(text), items, knownNames) : []),
+    [preview, text, items, knownNames],
+  );
+  const fresh = plan.filter(r => r.status === "new");
+  const counts = plan.reduce(
+    (acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }),
+    {} as Partial<Record<ImportStatus, number>>,
+  );
+
+  async function readFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setPreview(false);
+    e.target.value = "";
+  }
+
+  async function confirm() {
+    if (!fresh.length) return alert("Nenhum link novo para importar.");
+    setImporting(true);
+    const ok = await onImport(fresh);
+    setImporting(false);
+    if (ok) onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-3">
+        <h2 className="text-lg font-semibold">Importar links de imagens</h2>
+        <p className="text-sm text-neutral-600">
+          Cole um link por linha, ou CSV/TSV com as colunas <code>image_url</code>, <code>title</code>,{" "}
+          <code>owner</code> e <code>also_want</code> (interessados separados por <code>;</code> ou <code>|</code>).
+          Links do Google Drive (<code>file/d/ID</code>, <code>open?id=</code>, <code>uc?id=</code>,{" "}
+          <code>lh3.googleusercontent.com/d/</code> ou só o ID) são convertidos automaticamente.
+        </p>
+
+        {!preview ? (
+          <>
+            <textarea
+              rows={10}
+              className="w-full px-3 py-2 border rounded-xl text-sm font-mono"
+              placeholder={"https://drive.google.com/file/d/FILE_ID/view?usp=sharing\nou\nimage_url,title,owner,also_want"}
+              value={text}
+              onChange={e => setText(e.target.value)}
+            />
+            <label className="inline-flex items-center gap-2 text-sm">
+              <span className="px-3 py-2 border rounded-xl cursor-pointer hover:bg-neutral-50">Carregar ficheiro…</span>
+              <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" className="hidden" onChange={readFile} />
+            </label>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-3 text-sm">
+              {(Object.keys(STATUS_LABEL) as ImportStatus[]).map(s => (
+                <span key={s} className={STATUS_CLASS[s]}>{STATUS_LABEL[s]}: {counts[s] || 0}</span>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="text-xs w-full">
+                <thead>
+                  <tr className="text-left text-neutral-600">
+                    <th className="py-1 pr-2">Linha</th>
+                    <th className="py-1 pr-2">Estado</th>
+                    <th className="py-1 pr-2">Link</th>
+                    <th className="py-1 pr-2">Título</th>
+                    <th className="py-1 pr-2">Dono</th>
+                    <th className="py-1">Interessados</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.map(r => (
+                    <tr key={r.line} className="border-t align-top">
+                      <td className="py-1 pr-2 text-neutral-500">{r.line}</td>
+                      <td className={["py-1 pr-2 whitespace-nowrap", STATUS_CLASS[r.status]].join(" ")}>
+                        {r.status === "new" ? STATUS_LABEL.new : r.message}
+                      </td>
+                      <td className="py-1 pr-2 break-all max-w-[16rem]">{r.image_url || r.raw}</td>
+                      <td className="py-1 pr-2">{r.title || "—"}</td>
+                      <td className="py-1 pr-2">{r.owner || "—"}</td>
+                      <td className="py-1">{r.also_want.join(", ") || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Cancelar</button>
+          {!preview ? (
+            <button
+              className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+              onClick={() => setPreview(true)}
+              disabled={!text.trim()}
+            >
+              Pré-visualizar
+            </button>
+          ) : (
+            <>
+              <button className="px-3 py-2 border rounded-xl text-sm" onClick={() => setPreview(false)}>Editar</button>
+              <button
+                className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+                onClick={confirm}
+                disabled={importing || !fresh.length}
+              >
+                {importing ? "A importar…" : `Importar ${fresh.length} novos`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
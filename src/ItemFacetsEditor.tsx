@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import type { Item } from "./types";
+import type { ItemPatch } from "./itemsRepository";
+
+type Props = {
+  item: Item;
+  onChange: (patch: ItemPatch) => void;
+};
+
+// ids das <datalist> com os valores já usados (renderizadas uma vez na App)
+export const LOCATIONS_LIST = "known-locations";
+export const CATEGORIES_LIST = "known-categories";
+export const TAGS_LIST = "known-tags";
+
+export default function ItemFacetsEditor({ item, onChange }: Props) {
+  const [tag, setTag] = useState("");
+
+  function addTag() {
+    const t = tag.trim();
+    setTag("");
+    if (!t || item.tags.includes(t)) return;
+    onChange({ tags: [...item.tags, t] });
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          key={`loc-${item.location}`}
+          defaultValue={item.location || ""}
+          list={LOCATIONS_LIST}
+          placeholder="Divisão"
+          className="w-1/2 px-3 py-2 border rounded-xl text-sm"
+          onBlur={e => {
+            const val = e.target.value.trim() || null;
+            if (val !== item.location) onChange({ location: val });
+          }}
+        />
+        <input
+          key={`cat-${item.category}`}
+          defaultValue={item.category || ""}
+          list={CATEGORIES_LIST}
+          placeholder="Categoria"
+          className="w-1/2 px-3 py-2 border rounded-xl text-sm"
+          onBlur={e => {
+            const val = e.target.value.trim() || null;
+            if (val !== item.category) onChange({ category: val });
+          }}
+        />
+      </div>
+
+      {/* etiquetas */}
+      <div className="flex flex-wrap gap-1 items-center">
+        {item.tags.map(t => (
+          <span key={t} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-neutral-100">
+            #{t}
+            <button
+              className="text-neutral-500 hover:text-neutral-800"
+              onClick={() => onChange({ tags: item.tags.filter(x => x !== t) })}
+              title="Remover etiqueta"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          value={tag}
+          list={TAGS_LIST}
+          placeholder="+ etiqueta"
+          className="flex-1 min-w-[6rem] px-2 py-1 border rounded-lg text-xs"
+          onChange={e => setTag(e.target.value)}
+          onKeyDown={e => { if (e.key === "Enter") { e.preventDefault(); addTag(); } }}
+          onBlur={addTag}
+        />
+      </div>
+    </div>
+  );
+}
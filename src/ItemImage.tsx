@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { imageSources, noteWorkingSource, workingSources } from "./images";
+import { getThumb, storeThumb } from "./thumbCache";
+
+type Props = {
+  url: string;                 // link guardado no item
+  alt: string;
+  width: number;               // largura pedida às variantes do Drive
+  className?: string;
+  style?: React.CSSProperties;
+  loading?: "lazy" | "eager";
+  draggable?: boolean;
+  cache?: boolean;             // usar e guardar miniatura local (grelha)
+  imgRef?: React.Ref<HTMLImageElement>;
+  onClick?: (e: React.MouseEvent<HTMLImageElement>) => void;
+  onBroken?: () => void;       // nenhuma fonte carregou
+};
+
+// um link novo (ex.: re-ligado) recomeça a lista de fontes do princípio
+export default function ItemImage(props: Props) {
+  return <ResolvedImage key={props.url} {...props} />;
+}
+
+function ResolvedImage({ url, alt, width, className, style, loading, draggable, cache, imgRef, onClick, onBroken }: Props) {
+  const sources = useMemo(() => imageSources(url, width, workingSources()), [url, width]);
+  const [index, setIndex] = useState(0);
+  const [failed, setFailed] = useState(false);
+  // miniatura local: undefined enquanto se procura, null se não há
+  const [thumb, setThumb] = useState<string | null | undefined>(cache ? undefined : null);
+
+  useEffect(() => {
+    if (!cache) return;
+    let active = true;
+    let objectUrl: string | null = null;
+    getThumb(url).then(blob => {
+      if (!active) return;
+      objectUrl = blob ? URL.createObjectURL(blob) : null;
+      setThumb(objectUrl);
+    });
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, []);
+
+  if (failed) {
+    return (
+      <div className={["flex items-center justify-center bg-neutral-100 text-neutral-400 text-xs", className].join(" ")} style={style}>
+        Imagem indisponível
+      </div>
+    );
+  }
+  if (thumb === undefined) return <div className={["bg-neutral-100", className].join(" ")} style={style} />;
+
+  const source = sources[index];
+  const src = thumb ?? source.src;
+
+  function onLoad() {
+    if (thumb) return;
+    noteWorkingSource(url, source.kind);
+    if (cache) storeThumb(url, src);
+  }
+
+  function onError() {
+    if (thumb) return setThumb(null);   // miniatura estragada: volta às fontes normais
+    if (index + 1 < sources.length) return setIndex(index + 1);
+    setFailed(true);
+    onBroken?.();
+  }
+
+  return (
+    <img
+      ref={imgRef}
+      src={src}
+      alt={alt}
+      className={className}
+      style={style}
+      loading={loading}
+      draggable={draggable}
+      referrerPolicy="no-referrer"
+      onClick={onClick}
+      onLoad={onLoad}
+      onError={onError}
+    />
+  );
+}
@@ -0,0 +1,342 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { Item } from "./types";
+import type { ItemPatch } from "./itemsRepository";
+import type { Comment } from "./comments";
+import { Identity, canSetOwner } from "./identity";
+import { ownerChangePatch, toggleInterestPatch } from "./itemRules";
+import { NO_ZOOM, Point, Zoom, clampPan, distance, midpoint, swipeDirection, zoomAt } from "./zoom";
+import CommentThread from "./CommentThread";
+import ItemImage from "./ItemImage";
+import { preferredSource } from "./images";
+
+export type LightboxPanel = "details" | "comments" | null;
+
+type Props = {
+  item: Item;
+  me: Identity;
+  owners: string[];        // pessoas ativas (para escolher dono)
+  allNames: string[];
+  preload: string[];       // links das imagens dos itens vizinhos
+  onStep: ((delta: number) => void) | null;   // null quando o item não está na lista carregada
+  onClose: () => void;
+  onCopyLink: () => void;
+  onUpdate: (patch: ItemPatch) => void;
+  thread: Comment[];
+  lastRead: number;
+  onSendComment: (body: string) => Promise<boolean>;
+  onBroken: () => void;
+  panel: LightboxPanel;
+  onPanel: (panel: LightboxPanel) => void;
+};
+
+const FOCUSABLE = "button, input, select, textarea, [tabindex]:not([tabindex='-1'])";
+
+function isTyping(target: EventTarget | null) {
+  return target instanceof HTMLElement && /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName);
+}
+
+export default function Lightbox(props: Props) {
+  const { item, me, owners, allNames, preload, onStep, onCopyLink, onUpdate, thread, lastRead, onSendComment, panel, onPanel } = props;
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  useEffect(() => setZoom(NO_ZOOM), [item.id]);
+
+  // o teclado funciona com o foco em qualquer sítio; ao fechar o foco volta para onde estava
+  const latest = useRef(props);
+  latest.current = props;
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+
+    function onKeyDown(e: KeyboardEvent) {
+      const dialog = dialogRef.current;
+      if (!dialog) return;
+      if (e.key === "Tab") {
+        const list = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => !(el as HTMLButtonElement).disabled);
+        if (!list.length) return;
+        const first = list[0];
+        const last = list[list.length - 1];
+        const inside = dialog.contains(document.activeElement);
+        if (e.shiftKey && (!inside || document.activeElement === first || document.activeElement === dialog)) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && (!inside || document.activeElement === last)) {
+          e.preventDefault();
+          first.focus();
+        }
+        return;
+      }
+      // Escape num campo só sai do campo (e guarda); fora dele fecha
+      if (e.key === "Escape") {
+        e.preventDefault();
+        if (isTyping(e.target)) (e.target as HTMLElement).blur();
+        else latest.current.onClose();
+        return;
+      }
+      if (isTyping(e.target)) return;
+      if (e.key === "ArrowRight") latest.current.onStep?.(1);
+      else if (e.key === "ArrowLeft") latest.current.onStep?.(-1);
+      else if (e.key === "+" || e.key === "=") setZoom(z => clamp(zoomAt(z, 1.5, { x: 0, y: 0 })));
+      else if (e.key === "-") setZoom(z => clamp(zoomAt(z, 1 / 1.5, { x: 0, y: 0 })));
+      else if (e.key === "0") setZoom(NO_ZOOM);
+    }
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      previous?.focus?.();
+    };
+  }, []);
+
+  // pré-carregar os vizinhos para as setas e o swipe serem imediatos
+  useEffect(() => {
+    for (const url of preload) {
+      const img = new Image();
+      img.referrerPolicy = "no-referrer";
+      img.src = preferredSource(url, 2000);
+    }
+  }, [preload.join("\n")]);
+
+  function clamp(z: Zoom) {
+    const stage = stageRef.current;
+    const img = imgRef.current;
+    if (!stage || !img) return z;
+    return clampPan(z, { width: stage.clientWidth, height: stage.clientHeight }, { width: img.offsetWidth, height: img.offsetHeight });
+  }
+
+  // posição relativa ao centro da área da imagem
+  function local(e: { clientX: number; clientY: number }): Point {
+    const r = stageRef.current!.getBoundingClientRect();
+    return { x: e.clientX - r.left - r.width / 2, y: e.clientY - r.top - r.height / 2 };
+  }
+
+  // dedos/rato em contacto com a imagem: 1 arrasta (ou faz swipe), 2 fazem pinça
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef({ start: { x: 0, y: 0 }, moved: false, pinched: false, pinch: 0 });
+
+  function onPointerDown(e: React.PointerEvent) {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    stageRef.current?.setPointerCapture(e.pointerId);
+    const p = local(e);
+    pointers.current.set(e.pointerId, p);
+    if (pointers.current.size === 1) gesture.current = { start: p, moved: false, pinched: false, pinch: 0 };
+    if (pointers.current.size === 2) {
+      const [a, b] = Array.from(pointers.current.values());
+      gesture.current.pinched = true;
+      gesture.current.pinch = distance(a, b);
+    }
+  }
+
+  function onPointerMove(e: React.PointerEvent) {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) return;
+    const p = local(e);
+    pointers.current.set(e.pointerId, p);
+    const g = gesture.current;
+
+    if (pointers.current.size === 2) {
+      const [a, b] = Array.from(pointers.current.values());
+      const d = distance(a, b);
+      if (g.pinch > 0) setZoom(z => clamp(zoomAt(z, d / g.pinch, midpoint(a, b))));
+      g.pinch = d;
+      g.moved = true;
+      return;
+    }
+    if (distance(p, g.start) > 8) g.moved = true;
+    if (zoomRef.current.scale > 1) setZoom(z => clamp({ ...z, x: z.x + p.x - prev.x, y: z.y + p.y - prev.y }));
+  }
+
+  function onPointerUp(e: React.PointerEvent) {
+    const last = pointers.current.get(e.pointerId);
+    if (!last) return;
+    pointers.current.delete(e.pointerId);
+    const g = gesture.current;
+    if (pointers.current.size > 0 || g.pinched || zoomRef.current.scale > 1 || e.type === "pointercancel") return;
+    const dir = swipeDirection(last.x - g.start.x, last.y - g.start.y);
+    if (dir && onStep) onStep(dir);
+  }
+
+  // tocar fora da imagem fecha (mas não no fim de um gesto)
+  function onStageClick(e: React.MouseEvent) {
+    if (gesture.current.moved) return;
+    const r = imgRef.current?.getBoundingClientRect();
+    if (r && e.clientX >= r.left && e.clientX <= r.right && e.clientY >= r.top && e.clientY <= r.bottom) return;
+    props.onClose();
+  }
+
+  const canClaim = canSetOwner(me, item.owner, null) || canSetOwner(me, item.owner, me.name);
+  const ownerChoices = (item.owner && !owners.includes(item.owner) ? [...owners, item.owner] : owners)
+    .filter(o => o === item.owner || canSetOwner(me, item.owner, o));
+  const wanted = item.also_want.includes(me.name);
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={item.title || "Imagem"}
+      tabIndex={-1}
+      className="fixed inset-0 z-50 bg-black/90 text-white overscroll-contain outline-none"
+    >
+      <div
+        ref={stageRef}
+        className="absolute inset-0 flex items-center justify-center overflow-hidden"
+        style={{ touchAction: "none" }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onClick={onStageClick}
+        onWheel={e => {
+          const at = local(e);
+          setZoom(z => clamp(zoomAt(z, Math.exp(-e.deltaY * 0.0015), at)));
+        }}
+        onDoubleClick={e => {
+          const at = local(e);
+          setZoom(z => (z.scale > 1 ? NO_ZOOM : clamp(zoomAt(z, 2.5, at))));
+        }}
+      >
+        <ItemImage
+          imgRef={imgRef}
+          url={item.image_url}
+          alt={item.title || "Imagem"}
+          width={2000}
+          draggable={false}
+          onBroken={props.onBroken}
+          className={[
+            "max-h-screen w-auto max-w-[100vw] object-contain select-none",
+            zoom.scale > 1 ? "cursor-grab" : "cursor-zoom-in",
+          ].join(" ")}
+          style={{ transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }}
+        />
+      </div>
+
+      {/* legenda/top bar */}
+      <div className="absolute top-3 left-3 right-3 flex flex-wrap items-center gap-2">
+        <div className="px-3 py-1 rounded bg-white/10 text-xs">
+          {item.title || "Sem título"} {item.owner ? `• ${item.owner}` : ""}
+        </div>
+        <button className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 text-xs" onClick={onCopyLink}>
+          Copiar link
+        </button>
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            className="px-2 py-1 rounded bg-white/10 hover:bg-white/20"
+            onClick={() => setZoom(z => clamp(zoomAt(z, 1 / 1.5, { x: 0, y: 0 })))}
+            aria-label="Reduzir"
+          >−</button>
+          <button
+            className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 tabular-nums"
+            onClick={() => setZoom(NO_ZOOM)}
+            aria-label="Tamanho original"
+          >{Math.round(zoom.scale * 100)}%</button>
+          <button
+            className="px-2 py-1 rounded bg-white/10 hover:bg-white/20"
+            onClick={() => setZoom(z => clamp(zoomAt(z, 1.5, { x: 0, y: 0 })))}
+            aria-label="Ampliar"
+          >+</button>
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          <span className="hidden sm:inline text-xs opacity-80">Toca fora da imagem para fechar</span>
+          <button onClick={props.onClose} className="px-3 py-2 rounded bg-white text-black text-sm" aria-label="Fechar">
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      {/* painel: detalhes (título, dono, eu também quero) ou comentários */}
+      {panel ? (
+        <div className="absolute bottom-0 right-0 z-10 w-full sm:w-96 sm:m-3 max-h-[50vh] overflow-y-auto bg-white text-black rounded-t-2xl sm:rounded-2xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="flex gap-1 text-sm">
+              {(["details", "comments"] as const).map(p => (
+                <button
+                  key={p}
+                  className={["px-2 py-1 rounded-lg", panel === p ? "bg-neutral-900 text-white" : "hover:bg-neutral-100"].join(" ")}
+                  onClick={() => onPanel(p)}
+                >
+                  {p === "details" ? "Detalhes" : `Comentários (${thread.length})`}
+                </button>
+              ))}
+            </div>
+            <button className="ml-auto px-2 py-1 border rounded-lg text-xs" onClick={() => onPanel(null)}>Esconder</button>
+          </div>
+
+          {panel === "details" ? (
+            <div className="space-y-2">
+              <input
+                key={`title-${item.id}-${item.title}`}
+                defaultValue={item.title || ""}
+                placeholder="Título (ex.: cadeirão da sala)"
+                className="w-full px-3 py-2 border rounded-xl text-sm"
+                onBlur={e => {
+                  const val = e.target.value.trim();
+                  if (val !== (item.title || "")) onUpdate({ title: val || null });
+                }}
+              />
+              <select
+                className="w-full px-3 py-2 border rounded-xl text-sm disabled:bg-neutral-50"
+                value={item.owner || "__none__"}
+                disabled={!canClaim}
+                onChange={e => {
+                  const newOwner = e.target.value === "__none__" ? null : e.target.value;
+                  if (!canSetOwner(me, item.owner, newOwner)) return;
+                  onUpdate(ownerChangePatch(item, newOwner, allNames));
+                }}
+              >
+                <option value="__none__">Sem dono</option>
+                {ownerChoices.map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+              <div className="flex items-center gap-2">
+                <button
+                  className={[
+                    "px-3 py-2 border rounded-xl text-sm disabled:opacity-50",
+                    wanted ? "bg-neutral-900 text-white border-neutral-900" : "hover:bg-neutral-50",
+                  ].join(" ")}
+                  disabled={item.owner === me.name}
+                  aria-pressed={wanted}
+                  onClick={() => onUpdate(toggleInterestPatch(item, me.name, allNames))}
+                >
+                  {item.owner === me.name ? "É teu" : wanted ? "Já não quero" : "Eu também quero"}
+                </button>
+                <span className="text-xs text-neutral-500">
+                  {item.also_want.length ? `Interessados: ${item.also_want.join(", ")}` : "Sem interessados"}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <CommentThread thread={thread} me={me.name} lastRead={lastRead} onSend={onSendComment} />
+          )}
+        </div>
+      ) : (
+        <div className="absolute bottom-3 right-3 z-10 flex gap-2">
+          <button className="px-3 py-2 rounded bg-white text-black text-sm" onClick={() => onPanel("details")}>Detalhes</button>
+          <button className="px-3 py-2 rounded bg-white text-black text-sm" onClick={() => onPanel("comments")}>
+            Comentários ({thread.length})
+          </button>
+        </div>
+      )}
+
+      {/* navegação (só quando o item está na lista carregada) */}
+      {onStep && (
+        <>
+          <button
+            onClick={() => onStep(-1)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 px-3 py-2 bg-white/15 hover:bg-white/25 rounded"
+            aria-label="Anterior"
+          >&larr;</button>
+          <button
+            onClick={() => onStep(1)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-2 bg-white/15 hover:bg-white/25 rounded"
+            aria-label="Seguinte"
+          >&rarr;</button>
+        </>
+      )}
+    </div>
+  );
+}
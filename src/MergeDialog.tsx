@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from "react";
+import type { Item } from "./types";
+import { formatEuros } from "./fairness";
+import { mergedFields } from "./itemRules";
+import ItemImage from "./ItemImage";
+
+type Props = {
+  item: Item;             // o item que fica
+  candidates: Item[];
+  onMerge: (dropId: string, primaryUrl: string) => Promise<boolean>;
+  onBrokenImage: (item: Item) => void;
+  onClose: () => void;
+};
+
+export default function MergeDialog({ item, candidates, onMerge, onBrokenImage, onClose }: Props) {
+  const [q, setQ] = useState("");
+  const [dropId, setDropId] = useState<string | null>(null);
+  const [primaryUrl, setPrimaryUrl] = useState(item.image_url);
+  const [merging, setMerging] = useState(false);
+
+  const others = useMemo(() => {
+    const list = candidates.filter(c => c.id !== item.id);
+    const term = q.trim().toLowerCase();
+    return term ? list.filter(c => (c.title || "").toLowerCase().includes(term)) : list;
+  }, [candidates, item.id, q]);
+
+  const drop = dropId ? candidates.find(c => c.id === dropId) || null : null;
+  const result = drop ? mergedFields(item, drop, primaryUrl) : null;
+
+  async function confirm() {
+    if (!drop) return;
+    setMerging(true);
+    const ok = await onMerge(drop.id, primaryUrl);
+    setMerging(false);
+    if (ok) onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Juntar com outro item</h2>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+        </div>
+
+        {!drop ? (
+          <>
+            <input
+              className="w-full px-3 py-2 border rounded-xl text-sm"
+              placeholder="Pesquisar título"
+              value={q}
+              onChange={e => setQ(e.target.value)}
+            />
+            <div className="grid gap-2 grid-cols-2 sm:grid-cols-3">
+              {others.map(c => (
+                <button
+                  key={c.id}
+                  className="text-left border rounded-xl overflow-hidden hover:ring-2 hover:ring-neutral-300"
+                  onClick={() => setDropId(c.id)}
+                >
+                  <ItemImage
+                    url={c.image_url}
+                    alt={c.title || "Imagem"}
+                    width={400}
+                    loading="lazy"
+                    className="w-full aspect-[4/3] object-cover bg-neutral-100"
+                    onBroken={() => onBrokenImage(c)}
+                  />
+                  <div className="p-2 text-xs">
+                    <div className="truncate">{c.title || "Sem título"}</div>
+                    <div className="text-neutral-500">{c.owner || "Sem dono"}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-sm text-neutral-700">Foto principal</div>
+            <div className="grid grid-cols-2 gap-2">
+              {[item, drop].map(c => (
+                <label
+                  key={c.id}
+                  className={[
+                    "border rounded-xl overflow-hidden cursor-pointer",
+                    primaryUrl === c.image_url ? "ring-2 ring-neutral-900" : "",
+                  ].join(" ")}
+                >
+                  <ItemImage
+                    url={c.image_url}
+                    alt={c.title || "Imagem"}
+                    width={600}
+                    className="w-full aspect-[4/3] object-cover bg-neutral-100"
+                    onBroken={() => onBrokenImage(c)}
+                  />
+                  <div className="p-2 text-xs flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="primary"
+                      checked={primaryUrl === c.image_url}
+                      onChange={() => setPrimaryUrl(c.image_url)}
+                    />
+                    {c.title || "Sem título"} · {c.owner || "Sem dono"}
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {result && (
+              <div className="text-sm space-y-1 border rounded-xl p-3">
+                <div><span className="text-neutral-500">Título:</span> {result.title || "Sem título"}</div>
+                <div><span className="text-neutral-500">Dono:</span> {result.owner || "Sem dono"}</div>
+                <div><span className="text-neutral-500">Interessados:</span> {result.also_want.join(", ") || "—"}</div>
+                <div><span className="text-neutral-500">Divisão:</span> {result.location || "—"}</div>
+                <div><span className="text-neutral-500">Categoria:</span> {result.category || "—"}</div>
+                <div><span className="text-neutral-500">Etiquetas:</span> {result.tags.join(", ") || "—"}</div>
+                <div><span className="text-neutral-500">Valor estimado:</span> {formatEuros(result.estimated_value)}</div>
+                <div className="text-xs text-neutral-500">
+                  A outra foto fica guardada no item; o histórico dos dois é mantido.
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button className="px-3 py-2 border rounded-xl text-sm" onClick={() => setDropId(null)}>Escolher outro</button>
+              <button
+                className="px-3 py-2 border rounded-xl text-sm bg-neutral-900 text-white disabled:opacity-50"
+                disabled={merging}
+                onClick={confirm}
+              >
+                {merging ? "A juntar…" : "Juntar"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { Person, addPerson, mergePeople, renamePerson, setPersonActive } from "./people";
+
+type Props = {
+  people: Person[];
+  token: string;
+  onClose: () => void;
+};
+
+export default function PeopleAdmin({ people, token, onClose }: Props) {
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<string | null>(null);   // id em edição
+  const [editName, setEditName] = useState("");
+  const [mergeFrom, setMergeFrom] = useState("");
+  const [mergeInto, setMergeInto] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      alert("Erro: " + (err?.message || err));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function add() {
+    const name = newName.trim();
+    if (!name) return;
+    if (people.some(p => p.name === name)) return alert("Já existe alguém com esse nome.");
+    const maxOrder = people.reduce((m, p) => Math.max(m, p.sort_order), 0);
+    if (await run(() => addPerson(token, name, maxOrder + 1))) setNewName("");
+  }
+
+  async function rename(person: Person) {
+    const name = editName.trim();
+    if (!name || name === person.name) return setEditing(null);
+    if (people.some(p => p.name === name)) return alert("Já existe alguém com esse nome.");
+    if (await run(() => renamePerson(token, person.name, name))) setEditing(null);
+  }
+
+  async function merge() {
+    if (!mergeFrom || !mergeInto || mergeFrom === mergeInto) return;
+    if (!confirm(`Juntar "${mergeFrom}" em "${mergeInto}"? Todos os itens e interesses passam para "${mergeInto}" e "${mergeFrom}" é removido.`)) return;
+    if (await run(() => mergePeople(token, mergeFrom, mergeInto))) {
+      setMergeFrom("");
+      setMergeInto("");
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-40">
+      <div className="bg-white w-full max-w-xl max-h-[90vh] overflow-y-auto rounded-2xl p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Pessoas</h2>
+          <button className="px-3 py-2 border rounded-xl text-sm" onClick={onClose}>Fechar</button>
+        </div>
+
+        <ul className="divide-y">
+          {people.map(p => (
+            <li key={p.id} className="py-2 flex items-center gap-2 text-sm">
+              {editing === p.id ? (
+                <>
+                  <input
+                    autoFocus
+                    className="flex-1 px-3 py-1 border rounded-xl text-sm"
+                    value={editName}
+                    onChange={e => setEditName(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === "Enter") rename(p);
+                      if (e.key === "Escape") setEditing(null);
+                    }}
+                  />
+                  <button className="px-2 py-1 border rounded-lg text-xs" disabled={busy} onClick={() => rename(p)}>Guardar</button>
+                  <button className="px-2 py-1 border rounded-lg text-xs" onClick={() => setEditing(null)}>Cancelar</button>
+                </>
+              ) : (
+                <>
+                  <span className={["flex-1", p.active ? "" : "text-neutral-400 line-through"].join(" ")}>{p.name}</span>
+                  <button
+                    className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50"
+                    onClick={() => { setEditing(p.id); setEditName(p.name); }}
+                  >
+                    Mudar nome
+                  </button>
+                  <button
+                    className="px-2 py-1 border rounded-lg text-xs hover:bg-neutral-50"
+                    disabled={busy}
+                    onClick={() => run(() => setPersonActive(token, p.id, !p.active))}
+                  >
+                    {p.active ? "Desativar" : "Reativar"}
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {/* Adicionar */}
+        <div className="flex gap-2">
+          <input
+            className="flex-1 px-3 py-2 border rounded-xl text-sm"
+            placeholder="Nome da nova pessoa"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => { if (e.key === "Enter") add(); }}
+          />
+          <button className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50" disabled={busy || !newName.trim()} onClick={add}>
+            Adicionar
+          </button>
+        </div>
+
+        {/* Juntar */}
+        <div className="space-y-2">
+          <div className="text-sm text-neutral-700">Juntar duas pessoas</div>
+          <div className="flex gap-2 items-center">
+            <select className="flex-1 px-3 py-2 border rounded-xl text-sm" value={mergeFrom} onChange={e => setMergeFrom(e.target.value)}>
+              <option value="">De…</option>
+              {people.map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
+            </select>
+            <span className="text-sm">→</span>
+            <select className="flex-1 px-3 py-2 border rounded-xl text-sm" value={mergeInto} onChange={e => setMergeInto(e.target.value)}>
+              <option value="">Para…</option>
+              {people.filter(p => p.name !== mergeFrom).map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
+            </select>
+            <button
+              className="px-3 py-2 border rounded-xl text-sm disabled:opacity-50"
+              disabled={busy || !mergeFrom || !mergeInto || mergeFrom === mergeInto}
+              onClick={merge}
+            >
+              Juntar
+            </button>
+          </div>
+        </div>
+
+        <p className="text-xs text-neutral-500">
+          Mudar o nome ou juntar atualiza o dono e os interessados de todos os itens. Pessoas desativadas deixam de
+          aparecer nas listas de escolha, mas mantêm os itens que já têm.
+        </p>
+      </div>
+    </div>
+  );
+}
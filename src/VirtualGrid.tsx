@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { columnsFor, rowOffsets, visibleRows } from "./virtual";
+
+type Props<T> = {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  onEndReached?: () => void;   // chamado quando as últimas linhas se aproximam do ecrã
+  estimate?: number;           // altura de uma linha ainda não medida
+};
+
+const OVERSCAN = 1200;   // px desenhados acima e abaixo do ecrã
+
+function MeasuredRow({ row, observer, children }: { row: number; observer: ResizeObserver; children: React.ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const el = ref.current!;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+  return <div ref={ref} data-row={row} className="pb-4">{children}</div>;
+}
+
+export default function VirtualGrid<T>({ items, getKey, renderItem, onEndReached, estimate = 560 }: Props<T>) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(() => columnsFor(window.innerWidth));
+  const [heights, setHeights] = useState<Record<number, number>>({});
+  const [range, setRange] = useState({ from: 0, to: window.innerHeight + OVERSCAN });
+
+  const rows = Math.ceil(items.length / columns);
+  const { offsets, total } = useMemo(() => rowOffsets(rows, heights, estimate), [rows, heights, estimate]);
+  const { first, last } = visibleRows(offsets, total, range.from, range.to);
+
+  // janela visível, relativa ao topo da grelha
+  const measureWindow = useCallback(() => {
+    const top = ref.current ? ref.current.getBoundingClientRect().top + window.scrollY : 0;
+    setRange({ from: window.scrollY - top - OVERSCAN, to: window.scrollY - top + window.innerHeight + OVERSCAN });
+  }, []);
+
+  useEffect(() => {
+    function onResize() {
+      setColumns(columnsFor(window.innerWidth));
+      measureWindow();
+    }
+    measureWindow();
+    window.addEventListener("scroll", measureWindow, { passive: true });
+    window.addEventListener("resize", onResize);
+    return () => {
+      window.removeEventListener("scroll", measureWindow);
+      window.removeEventListener("resize", onResize);
+    };
+  }, [measureWindow]);
+
+  // com outro número de colunas as linhas são outras: medir de novo
+  useEffect(() => { setHeights({}); }, [columns]);
+
+  useEffect(() => {
+    if (onEndReached && rows > 0 && last >= rows - 2) onEndReached();
+  }, [last, rows, onEndReached]);
+
+  const observer = useMemo(() => new ResizeObserver(entries => {
+    setHeights(prev => {
+      let next = prev;
+      for (const entry of entries) {
+        const el = entry.target as HTMLElement;
+        // linhas que saíram do ecrã deixam de ter tamanho: manter a última medida
+        if (!el.isConnected) continue;
+        const row = Number(el.dataset.row);
+        if (prev[row] === el.offsetHeight) continue;
+        if (next === prev) next = { ...prev };
+        next[row] = el.offsetHeight;
+      }
+      return next;
+    });
+  }), []);
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  const visible: number[] = [];
+  for (let r = first; r <= last; r++) visible.push(r);
+
+  return (
+    <div ref={ref} className="relative" style={{ height: total }}>
+      <div style={{ transform: `translateY(${offsets[first] ?? 0}px)` }}>
+        {visible.map(r => (
+          <MeasuredRow key={r} row={r} observer={observer}>
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+              {items.slice(r * columns, (r + 1) * columns).map((item, i) => (
+                <React.Fragment key={getKey(item)}>{renderItem(item, r * columns + i)}</React.Fragment>
+              ))}
+            </div>
+          </MeasuredRow>
+        ))}
+      </div>
+    </div>
+  );
+}
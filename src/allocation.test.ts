@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocationChanges,
+  autoDraft,
+  claimantsOf,
+  nextDrafter,
+  overBudget,
+  personTotals,
+  resolveBids,
+  syncOrder,
+} from "./allocation";
+import { makeItem } from "./testItems";
+
+const piano = makeItem({ title: "Piano", owner: "Sandra", also_want: ["Sofia"] });
+const relogio = makeItem({ title: "Relógio", owner: null, also_want: ["Sofia", "Pai"] });
+const cadeira = makeItem({ title: "Cadeira", owner: "Pai", also_want: ["Pai", "Sandra"] });
+const ITEMS = [piano, relogio, cadeira];
+
+describe("reclamantes", () => {
+  it("dono primeiro, depois os interessados, sem repetidos", () => {
+    expect(claimantsOf(piano)).toEqual(["Sandra", "Sofia"]);
+    expect(claimantsOf(relogio)).toEqual(["Sofia", "Pai"]);
+    expect(claimantsOf(cadeira)).toEqual(["Pai", "Sandra"]);
+  });
+});
+
+describe("draft por turnos", () => {
+  it("salta quem já não tem itens disponíveis", () => {
+    const order = ["Sofia", "Sandra", "Pai"];
+    expect(nextDrafter(ITEMS, order, {}, 0)).toBe(0);
+    const picks = { [piano.id]: "Sofia", [relogio.id]: "Sofia" };
+    expect(nextDrafter(ITEMS, order, picks, 0)).toBe(1);
+    expect(nextDrafter(ITEMS, order, { ...picks, [cadeira.id]: "Sandra" }, 2)).toBeNull();
+    expect(nextDrafter(ITEMS, [], {}, 0)).toBeNull();
+  });
+
+  it("completa o draft por turnos a partir das escolhas feitas", () => {
+    expect(autoDraft(ITEMS, ["Sofia", "Sandra", "Pai"])).toEqual({
+      [piano.id]: "Sofia",
+      [cadeira.id]: "Sandra",
+      [relogio.id]: "Pai",
+    });
+    expect(autoDraft(ITEMS, ["Sofia", "Sandra", "Pai"], { [relogio.id]: "Sofia" }, 1)).toEqual({
+      [relogio.id]: "Sofia",
+      [piano.id]: "Sandra",
+      [cadeira.id]: "Pai",
+    });
+  });
+});
+
+describe("licitação por pontos", () => {
+  it("ganha a maior licitação e os empates seguem a ordem", () => {
+    const bids = { Sofia: { [piano.id]: 30, [relogio.id]: 10 }, Pai: { [relogio.id]: 10 }, Sandra: { [piano.id]: 20 } };
+    expect(resolveBids(ITEMS, bids, ["Pai", "Sofia", "Sandra"])).toEqual({
+      [piano.id]: "Sofia",
+      [relogio.id]: "Pai",
+      [cadeira.id]: "Pai",
+    });
+    expect(resolveBids([relogio], bids, ["Sofia", "Pai"])).toEqual({ [relogio.id]: "Sofia" });
+  });
+
+  it("assinala quem gastou mais do que o orçamento, ignorando valores negativos", () => {
+    expect(overBudget({ Sofia: { a: 60, b: 50 }, Pai: { a: 120, b: -30 } }, 100)).toEqual(["Sofia", "Pai"]);
+    expect(overBudget({ Sofia: { a: 60, b: -50 } }, 100)).toEqual([]);
+  });
+});
+
+describe("resultado", () => {
+  it("o vencedor fica dono e os outros reclamantes ficam interessados", () => {
+    const changes = allocationChanges(ITEMS, { [piano.id]: "Sofia", [cadeira.id]: "Pai" });
+    expect(changes).toEqual([
+      expect.objectContaining({ id: piano.id, owner: "Sofia", prevOwner: "Sandra", also_want: ["Sandra"], changed: true }),
+      expect.objectContaining({ id: cadeira.id, owner: "Pai", prevOwner: "Pai", also_want: ["Sandra"], changed: true }),
+    ]);
+    const unchanged = makeItem({ owner: "Pai", also_want: ["Sofia"] });
+    expect(allocationChanges([unchanged], { [unchanged.id]: "Pai" })[0].changed).toBe(false);
+  });
+
+  it("totais por pessoa contam ganhos, perdas e itens depois da ronda", () => {
+    const changes = allocationChanges(ITEMS, { [piano.id]: "Sofia", [relogio.id]: "Sofia", [cadeira.id]: "Pai" });
+    const totals = personTotals(["Sofia", "Sandra"], [...ITEMS, makeItem({ owner: "Sandra" })], changes, { Sofia: { [piano.id]: 40 } });
+    expect(totals).toEqual([
+      { name: "Sofia", won: 2, lost: 0, owned: 2, pointsSpent: 40 },
+      { name: "Sandra", won: 0, lost: 2, owned: 1, pointsSpent: 0 },
+    ]);
+  });
+});
+
+describe("ordem dos participantes", () => {
+  it("mantém a ordem escolhida e junta no fim quem entrou", () => {
+    const order = ["Pai", "Sofia", "Sandra"];
+    expect(syncOrder(order, ["Sandra", "Sofia", "Pai"])).toBe(order);
+    expect(syncOrder(order, ["Sandra", "Sofia", "Paulo"])).toEqual(["Sofia", "Sandra", "Paulo"]);
+    expect(syncOrder(order, ["Sandra", "Sofia", "Pai", "Mãe"])).toEqual(["Pai", "Sofia", "Sandra", "Mãe"]);
+  });
+});
@@ -0,0 +1,174 @@
+// Motor de atribuição de itens disputados (draft por turnos ou licitação por pontos)
+
+export type AllocatableItem = {
+  id: string;
+  title: string | null;
+  owner: string | null;
+  also_want: string[];
+};
+
+export type AllocationMode = "draft" | "points";
+
+// itemId -> pessoa vencedora
+export type Allocation = Record<string, string>;
+
+// pessoa -> itemId -> pontos
+export type Bids = Record<string, Record<string, number>>;
+
+export type AllocationChange = {
+  id: string;
+  title: string | null;
+  winner: string;
+  losers: string[];
+  prevOwner: string | null;
+  owner: string;
+  also_want: string[];
+  changed: boolean;
+};
+
+export type PersonTotals = {
+  name: string;
+  won: number;        // itens disputados ganhos nesta ronda
+  lost: number;       // itens disputados perdidos nesta ronda
+  owned: number;      // total de itens com esta pessoa como dono depois da ronda
+  pointsSpent: number;
+};
+
+export const DEFAULT_BUDGET = 100;
+
+export function isContested(item: AllocatableItem) {
+  return item.also_want.length > 0;
+}
+
+// dono atual primeiro, depois os interessados, sem repetidos
+export function claimantsOf(item: AllocatableItem): string[] {
+  const list = item.owner ? [item.owner, ...item.also_want] : [...item.also_want];
+  return Array.from(new Set(list));
+}
+
+export function contestedItems<T extends AllocatableItem>(items: T[]): T[] {
+  return items.filter(isContested);
+}
+
+export function shuffle<T>(list: T[], random: () => number = Math.random): T[] {
+  const out = [...list];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// mantém a ordem escolhida para quem continua e junta no fim quem entrou (ex.: pessoa nova ou renomeada);
+// devolve a mesma lista se nada mudou
+export function syncOrder(order: string[], participants: string[]): string[] {
+  const next = [...order.filter(p => participants.includes(p)), ...participants.filter(p => !order.includes(p))];
+  return next.length === order.length && next.every((p, i) => p === order[i]) ? order : next;
+}
+
+/* ---------- Draft por turnos ---------- */
+
+// itens ainda por atribuir que esta pessoa reclama
+export function availableFor(person: string, items: AllocatableItem[], picks: Allocation) {
+  return items.filter(i => !picks[i.id] && claimantsOf(i).includes(person));
+}
+
+// índice (em `order`) de quem escolhe a seguir, a partir de `turn`; null quando já não há escolhas
+export function nextDrafter(items: AllocatableItem[], order: string[], picks: Allocation, turn: number): number | null {
+  if (!order.length) return null;
+  for (let k = 0; k < order.length; k++) {
+    const idx = (turn + k) % order.length;
+    if (availableFor(order[idx], items, picks).length) return idx;
+  }
+  return null;
+}
+
+// completa o draft escolhendo sempre o primeiro item disponível de cada pessoa
+export function autoDraft(items: AllocatableItem[], order: string[], picks: Allocation = {}, turn = 0): Allocation {
+  const out = { ...picks };
+  let t = turn;
+  for (;;) {
+    const idx = nextDrafter(items, order, out, t);
+    if (idx === null) break;
+    const [first] = availableFor(order[idx], items, out);
+    out[first.id] = order[idx];
+    t = idx + 1;
+  }
+  return out;
+}
+
+/* ---------- Licitação por pontos ---------- */
+
+export function pointsSpent(bids: Bids, person: string) {
+  return Object.values(bids[person] || {}).reduce((sum, n) => sum + (n > 0 ? n : 0), 0);
+}
+
+// pessoas que gastaram mais do que o orçamento
+export function overBudget(bids: Bids, budget: number): string[] {
+  return Object.keys(bids).filter(p => pointsSpent(bids, p) > budget);
+}
+
+// maior licitação ganha; empates decididos pela ordem (quem aparece primeiro)
+export function resolveBids(items: AllocatableItem[], bids: Bids, order: string[]): Allocation {
+  const rank = (p: string) => {
+    const i = order.indexOf(p);
+    return i === -1 ? order.length : i;
+  };
+  const out: Allocation = {};
+  for (const item of items) {
+    const claimants = claimantsOf(item);
+    if (!claimants.length) continue;
+    const sorted = [...claimants].sort((a, b) => {
+      const diff = (bids[b]?.[item.id] || 0) - (bids[a]?.[item.id] || 0);
+      return diff !== 0 ? diff : rank(a) - rank(b);
+    });
+    out[item.id] = sorted[0];
+  }
+  return out;
+}
+
+/* ---------- Resultado ---------- */
+
+// vencedor fica como dono; os restantes reclamantes ficam em also_want
+export function allocationChanges(items: AllocatableItem[], allocation: Allocation): AllocationChange[] {
+  const out: AllocationChange[] = [];
+  for (const item of items) {
+    const winner = allocation[item.id];
+    if (!winner) continue;
+    const losers = claimantsOf(item).filter(n => n !== winner);
+    const changed = item.owner !== winner
+      || losers.length !== item.also_want.length
+      || losers.some((n, i) => item.also_want[i] !== n);
+    out.push({
+      id: item.id,
+      title: item.title,
+      winner,
+      losers,
+      prevOwner: item.owner,
+      owner: winner,
+      also_want: losers,
+      changed,
+    });
+  }
+  return out;
+}
+
+export function personTotals(
+  people: string[],
+  allItems: AllocatableItem[],
+  changes: AllocationChange[],
+  bids: Bids = {},
+): PersonTotals[] {
+  const byId = new Map(changes.map(c => [c.id, c]));
+  return people.map(name => {
+    let won = 0, lost = 0, owned = 0;
+    for (const item of allItems) {
+      const c = byId.get(item.id);
+      const owner = c ? c.owner : item.owner;
+      if (owner === name) owned++;
+      if (c && c.winner === name) won++;
+      if (c && c.losers.includes(name)) lost++;
+    }
+    return { name, won, lost, owned, pointsSpent: pointsSpent(bids, name) };
+  });
+}
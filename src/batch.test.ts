@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { batchPatch, summarize, toggleSelection } from "./batch";
+import { makeItem } from "./testItems";
+
+const KNOWN = ["Mãe", "Pai", "Sandra", "Sofia"];
+const ORDER = ["a", "b", "c", "d", "e"];
+
+describe("toggleSelection", () => {
+  it("um clique alterna o item", () => {
+    expect(toggleSelection([], ORDER, "b", null, false)).toEqual(["b"]);
+    expect(toggleSelection(["b", "c"], ORDER, "b", "c", false)).toEqual(["c"]);
+  });
+
+  it("shift-clique junta o intervalo desde o último clicado, nos dois sentidos", () => {
+    expect(toggleSelection(["b"], ORDER, "d", "b", true)).toEqual(["b", "c", "d"]);
+    expect(toggleSelection(["e"], ORDER, "c", "e", true)).toEqual(["e", "c", "d"]);
+  });
+});
+
+describe("batchPatch", () => {
+  it("dono: tira o novo dono dos interessados e ignora quem já é dono", () => {
+    const item = makeItem({ owner: null, also_want: ["Sofia", "Pai"] });
+    expect(batchPatch(item, { kind: "owner", owner: "Sofia" }, KNOWN)).toEqual({ owner: "Sofia", also_want: ["Pai"] });
+    expect(batchPatch(makeItem({ owner: "Sofia" }), { kind: "owner", owner: "Sofia" }, KNOWN)).toBeNull();
+  });
+
+  it("interessados: acrescenta ou remove sem repetir nem incluir o dono", () => {
+    const item = makeItem({ owner: "Pai", also_want: ["Sofia"] });
+    expect(batchPatch(item, { kind: "addInterest", name: "Mãe" }, KNOWN)).toEqual({ also_want: ["Sofia", "Mãe"] });
+    expect(batchPatch(item, { kind: "addInterest", name: "Pai" }, KNOWN)).toBeNull();
+    expect(batchPatch(item, { kind: "removeInterest", name: "Sofia" }, KNOWN)).toEqual({ also_want: [] });
+    expect(batchPatch(item, { kind: "removeInterest", name: "Mãe" }, KNOWN)).toBeNull();
+  });
+
+  it("prefixo do título não se repete", () => {
+    expect(batchPatch(makeItem({ title: "prato" }), { kind: "titlePrefix", prefix: "Loiça:" }, KNOWN)).toEqual({ title: "Loiça: prato" });
+    expect(batchPatch(makeItem({ title: null }), { kind: "titlePrefix", prefix: "Loiça" }, KNOWN)).toEqual({ title: "Loiça" });
+    expect(batchPatch(makeItem({ title: "Loiça: prato" }), { kind: "titlePrefix", prefix: "Loiça:" }, KNOWN)).toBeNull();
+  });
+});
+
+describe("summarize", () => {
+  it("conta sucessos e junta os erros com o título do item", () => {
+    const items = [makeItem({ title: "Piano" }), makeItem()];
+    const summary = summarize(items, [{ id: items[0].id, error: "Sem permissão" }, { id: items[1].id, error: null }], 2);
+    expect(summary).toEqual({ ok: 1, unchanged: 2, failed: [{ id: items[0].id, title: "Piano", error: "Sem permissão" }] });
+  });
+});
@@ -0,0 +1,66 @@
+// Seleção múltipla na grelha e ações em lote
+import type { Item } from "./types";
+import type { BatchResult, ItemPatch } from "./itemsRepository";
+import { ownerChangePatch, sanitizeInterested } from "./itemRules";
+
+export type BatchAction =
+  | { kind: "owner"; owner: string | null }
+  | { kind: "addInterest"; name: string }
+  | { kind: "removeInterest"; name: string }
+  | { kind: "titlePrefix"; prefix: string }
+  | { kind: "archive" };
+
+export type BatchSummary = {
+  ok: number;
+  unchanged: number;   // itens onde a ação não mudava nada
+  failed: { id: string; title: string | null; error: string }[];
+};
+
+// clique: alterna um item; shift-clique: junta o intervalo desde o último clicado
+export function toggleSelection(
+  selected: string[],
+  order: string[],
+  id: string,
+  anchor: string | null,
+  range: boolean,
+): string[] {
+  if (range && anchor && anchor !== id) {
+    const a = order.indexOf(anchor);
+    const b = order.indexOf(id);
+    if (a >= 0 && b >= 0) {
+      const span = order.slice(Math.min(a, b), Math.max(a, b) + 1);
+      return Array.from(new Set([...selected, ...span]));
+    }
+  }
+  return selected.includes(id) ? selected.filter(x => x !== id) : [...selected, id];
+}
+
+// patch de uma ação para um item; null quando não muda nada
+export function batchPatch(item: Item, action: BatchAction, known: string[]): ItemPatch | null {
+  switch (action.kind) {
+    case "owner":
+      return item.owner === action.owner ? null : ownerChangePatch(item, action.owner, known);
+    case "addInterest":
+      if (item.owner === action.name || item.also_want.includes(action.name)) return null;
+      return { also_want: sanitizeInterested([...item.also_want, action.name], known) };
+    case "removeInterest":
+      if (!item.also_want.includes(action.name)) return null;
+      return { also_want: item.also_want.filter(n => n !== action.name) };
+    case "titlePrefix": {
+      const prefix = action.prefix.trim();
+      const title = (item.title || "").trim();
+      if (!prefix || title.startsWith(prefix)) return null;
+      return { title: title ? `${prefix} ${title}` : prefix };
+    }
+    case "archive":
+      return null;
+  }
+}
+
+export function summarize(items: Item[], results: BatchResult[], unchanged: number): BatchSummary {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const failed = results
+    .filter(r => r.error)
+    .map(r => ({ id: r.id, title: byId.get(r.id)?.title ?? null, error: r.error! }));
+  return { ok: results.length - failed.length, unchanged, failed };
+}
@@ -0,0 +1,33 @@
+// Imagens que não carregaram em nenhuma fonte (tabela broken_images), para o admin re-ligar
+import { supabase } from "./supabase";
+
+export type BrokenImage = {
+  item_id: string;
+  image_url: string;
+  reported_by: string;
+  reported_at: string;
+};
+
+// cada link só é reportado uma vez por sessão do browser
+const reported = new Set<string>();
+
+export async function reportBrokenImage(token: string, itemId: string, imageUrl: string) {
+  if (reported.has(imageUrl)) return;
+  reported.add(imageUrl);
+  const { error } = await supabase.rpc("report_broken_image", { p_token: token, p_item_id: itemId, p_image_url: imageUrl });
+  if (error) reported.delete(imageUrl);
+}
+
+export async function fetchBrokenImages() {
+  const { data, error } = await supabase
+    .from("broken_images")
+    .select("*")
+    .order("reported_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as BrokenImage[];
+}
+
+export async function dismissBrokenImage(token: string, itemId: string) {
+  const { error } = await supabase.rpc("dismiss_broken_image", { p_token: token, p_item_id: itemId });
+  if (error) throw error;
+}
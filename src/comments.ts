@@ -0,0 +1,95 @@
+// Comentários por item (tabela item_comments), com atualização em tempo real.
+// Só se carregam os comentários do item aberto; para a grelha chegam as contagens por item.
+import { useEffect, useState } from "react";
+import { supabase } from "./supabase";
+import type { ReadMarks } from "./readMarks";
+
+export type Comment = {
+  id: number;
+  item_id: string;
+  author: string;
+  body: string;
+  created_at: string;
+};
+
+// total e por ler (de outras pessoas, depois do último lido) de cada item com comentários
+export type CommentCount = { total: number; unread: number };
+
+const COUNTS_DELAY_MS = 300;
+
+export function useCommentCounts(me: string | null, readMarks: ReadMarks) {
+  const [counts, setCounts] = useState<Map<string, CommentCount>>(new Map());
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("realtime:item_comments")
+      .on("postgres_changes", { event: "*", schema: "public", table: "item_comments" }, () => setTick(t => t + 1))
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const marksKey = JSON.stringify(readMarks);
+  useEffect(() => {
+    if (!me) return setCounts(new Map());
+    let active = true;
+    const t = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("comment_counts", { p_me: me, p_read: readMarks });
+      if (!active || error) return;
+      const rows = (data || []) as { item_id: string; total: number; unread: number }[];
+      setCounts(new Map(rows.map(r => [r.item_id, { total: Number(r.total), unread: Number(r.unread) }])));
+    }, COUNTS_DELAY_MS);
+    return () => { active = false; clearTimeout(t); };
+  }, [me, marksKey, tick]);
+
+  return counts;
+}
+
+// comentários de um item, só enquanto está aberto
+export function useCommentThread(itemId: string | null) {
+  // guarda-se de que item são, para não mostrar os do item anterior enquanto os novos carregam
+  const [thread, setThread] = useState<{ itemId: string | null; comments: Comment[] }>({ itemId: null, comments: [] });
+
+  useEffect(() => {
+    setThread({ itemId, comments: [] });
+    if (!itemId) return;
+    let active = true;
+    const update = (f: (prev: Comment[]) => Comment[]) => setThread(prev => ({ itemId, comments: f(prev.comments) }));
+
+    supabase
+      .from("item_comments")
+      .select("*")
+      .eq("item_id", itemId)
+      .order("id")
+      .then(({ data, error }) => { if (active && !error) update(() => (data || []) as Comment[]); });
+
+    const filter = `item_id=eq.${itemId}`;
+    const channel = supabase
+      .channel(`realtime:item_comments:${itemId}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "item_comments", filter }, (p: any) => {
+        const row = p.new as Comment;
+        update(prev => [...prev.filter(c => c.id !== row.id), row]);
+      })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "item_comments", filter }, (p: any) => {
+        const row = p.new as Comment;
+        update(prev => prev.map(c => (c.id === row.id ? row : c)));
+      })
+      // os DELETE não se podem filtrar por coluna: chegam todos e ignoram-se os de outros itens
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "item_comments" }, (p: any) => {
+        update(prev => prev.filter(c => c.id !== p.old.id));
+      })
+      .subscribe();
+
+    return () => { active = false; supabase.removeChannel(channel); };
+  }, [itemId]);
+
+  return thread.itemId === itemId ? thread.comments : NO_COMMENTS;
+}
+
+const NO_COMMENTS: Comment[] = [];
+
+export async function addComment(token: string, itemId: string, body: string) {
+  const { data, error } = await supabase.rpc("add_comment", { p_token: token, p_item_id: itemId, p_body: body.trim() });
+  if (error) throw error;
+  return data as Comment;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./exporter";
+import { makeItem } from "./testItems";
+
+describe("exportação CSV", () => {
+  it("neutraliza texto que a folha de cálculo leria como fórmula", () => {
+    const item = makeItem({ title: "=HYPERLINK(\"x\")", location: "@sala", category: "-", tags: ["+1"], estimated_value: -5 });
+    const [, row] = toCsv([item]).split("\r\n");
+
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(row).toContain(",'@sala,'-,'+1,-5,");
+  });
+});
@@ -0,0 +1,67 @@
+// Exportação: inventário completo (CSV/JSON) e listas por pessoa
+import type { Item } from "./types";
+
+const CSV_COLUMNS: (keyof Item)[] = [
+  "id", "title", "owner", "also_want", "location", "category", "tags", "estimated_value", "image_url", "merged_image_urls",
+  "created_at", "updated_at", "updated_by", "archived_at",
+];
+
+function csvCell(value: unknown) {
+  let s = Array.isArray(value) ? value.join("; ") : value == null ? "" : String(value);
+  // texto a começar por = + - @ seria lido como fórmula pela folha de cálculo; os números ficam como estão
+  if (typeof value !== "number" && /^[=+\-@\t\r]/.test(s)) s = "'" + s;
+  return /[",;\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(items: Item[]) {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const item of items) lines.push(CSV_COLUMNS.map(c => csvCell(item[c])).join(","));
+  return lines.join("\r\n");
+}
+
+export function toJson(items: Item[]) {
+  return JSON.stringify(
+    items.map(i => Object.fromEntries(CSV_COLUMNS.map(c => [c, i[c]]))),
+    null,
+    2,
+  );
+}
+
+export function download(filename: string, content: string, mime: string) {
+  // BOM para o Excel abrir os acentos corretamente
+  const blob = new Blob([mime.startsWith("text/csv") ? "﻿" + content : content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // alguns browsers só começam a descarga depois do clique: libertar o URL mais tarde
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function exportFilename(ext: string) {
+  return `inventario-${new Date().toISOString().slice(0, 10)}.${ext}`;
+}
+
+export type OwnerGroup = { owner: string; items: Item[] };
+
+// agrupa por dono, pela ordem de `people`; donos fora da lista vão no fim
+export function groupByOwner(items: Item[], people: string[]): OwnerGroup[] {
+  const map = new Map<string, Item[]>();
+  for (const item of items) {
+    if (!item.owner) continue;
+    map.set(item.owner, [...(map.get(item.owner) || []), item]);
+  }
+  const names = [...people.filter(p => map.has(p)), ...[...map.keys()].filter(k => !people.includes(k))];
+  return names.map(owner => ({ owner, items: map.get(owner)! }));
+}
+
+export function unownedItems(items: Item[]) {
+  return items.filter(i => !i.owner);
+}
+
+export function contestedItems(items: Item[]) {
+  return items.filter(i => i.also_want.length > 0);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { balancingSuggestions, equalShare, fairnessRows } from "./fairness";
+import { makeItem } from "./testItems";
+
+const PEOPLE = ["Sandra", "Sofia"];
+
+describe("fairnessRows", () => {
+  it("soma itens, valor e interesses por pessoa e a distância à parte igual", () => {
+    const items = [
+      makeItem({ owner: "Sandra", estimated_value: 300 }),
+      makeItem({ owner: "Sandra", estimated_value: null, also_want: ["Sofia"] }),
+      makeItem({ owner: "Sofia", estimated_value: 100 }),
+      makeItem({ owner: null, estimated_value: 200 }),
+    ];
+    expect(equalShare(items, PEOPLE)).toBe(300);
+    expect(fairnessRows(items, PEOPLE)).toEqual([
+      { name: "Sandra", count: 2, value: 300, interests: 0, gap: 0 },
+      { name: "Sofia", count: 1, value: 100, interests: 1, gap: -200 },
+    ]);
+  });
+});
+
+describe("balancingSuggestions", () => {
+  it("sugere passar um item disputado para quem está abaixo da parte igual", () => {
+    const piano = makeItem({ title: "Piano", owner: "Sandra", estimated_value: 100, also_want: ["Sofia"] });
+    const items = [piano, makeItem({ owner: "Sandra", estimated_value: 300 })];
+    const [best, ...rest] = balancingSuggestions(items, PEOPLE);
+    expect(best).toMatchObject({ id: piano.id, from: "Sandra", to: "Sofia", gain: 200 });
+    expect(rest).toEqual([]);
+  });
+
+  it("ignora itens sem valor e mudanças que pioram o equilíbrio", () => {
+    const items = [
+      makeItem({ owner: "Sofia", estimated_value: 50, also_want: ["Sandra"] }),
+      makeItem({ owner: "Sandra", estimated_value: 500 }),
+      makeItem({ owner: "Sofia", estimated_value: null, also_want: ["Sandra"] }),
+    ];
+    expect(balancingSuggestions(items, PEOPLE)).toEqual([]);
+  });
+});
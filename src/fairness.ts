@@ -0,0 +1,79 @@
+// Equilíbrio da partilha: valor e número de itens por pessoa e sugestões para aproximar os totais
+import { AllocatableItem, claimantsOf, isContested } from "./allocation";
+
+export type ValuedItem = AllocatableItem & { estimated_value: number | null };
+
+export type FairnessRow = {
+  name: string;
+  count: number;       // itens de que é dono
+  value: number;       // soma do valor estimado desses itens
+  interests: number;   // itens onde está como interessado
+  gap: number;         // valor - parte igual (negativo = abaixo da média)
+};
+
+export type Suggestion = {
+  id: string;
+  title: string | null;
+  value: number;
+  from: string | null;
+  to: string;
+  gain: number;        // quanto diminui a distância total à parte igual
+};
+
+export function valueOf(item: { estimated_value: number | null }) {
+  return item.estimated_value ?? 0;
+}
+
+// parte igual: valor de todos os itens dividido pelas pessoas
+export function equalShare(items: ValuedItem[], people: string[]) {
+  if (!people.length) return 0;
+  return items.reduce((sum, i) => sum + valueOf(i), 0) / people.length;
+}
+
+export function fairnessRows(items: ValuedItem[], people: string[]): FairnessRow[] {
+  const share = equalShare(items, people);
+  return people.map(name => {
+    const owned = items.filter(i => i.owner === name);
+    const value = owned.reduce((sum, i) => sum + valueOf(i), 0);
+    return {
+      name,
+      count: owned.length,
+      value,
+      interests: items.filter(i => i.also_want.includes(name)).length,
+      gap: value - share,
+    };
+  });
+}
+
+function distance(totals: Map<string, number>, share: number) {
+  let d = 0;
+  for (const v of totals.values()) d += Math.abs(v - share);
+  return d;
+}
+
+// itens disputados cuja passagem para outro interessado mais aproxima os totais da parte igual
+export function balancingSuggestions(items: ValuedItem[], people: string[], limit = 10): Suggestion[] {
+  const share = equalShare(items, people);
+  const totals = new Map(fairnessRows(items, people).map(r => [r.name, r.value]));
+  const before = distance(totals, share);
+  const out: Suggestion[] = [];
+
+  for (const item of items) {
+    const value = valueOf(item);
+    if (!isContested(item) || value <= 0) continue;
+    for (const to of claimantsOf(item)) {
+      if (to === item.owner || !totals.has(to)) continue;
+      const next = new Map(totals);
+      if (item.owner && next.has(item.owner)) next.set(item.owner, next.get(item.owner)! - value);
+      next.set(to, next.get(to)! + value);
+      const gain = before - distance(next, share);
+      if (gain > 0) out.push({ id: item.id, title: item.title, value, from: item.owner, to, gain });
+    }
+  }
+  return out.sort((a, b) => b.gain - a.gain).slice(0, limit);
+}
+
+export function formatEuros(v: number | null | undefined) {
+  if (v == null) return "—";
+  return v.toLocaleString("pt-PT", { style: "currency", currency: "EUR", maximumFractionDigits: 0 });
+}
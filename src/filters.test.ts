@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { NO_FACETS, facetCounts, filterItems } from "./filters";
+import { makeItem } from "./testItems";
+
+const items = [
+  makeItem({ title: "Cadeirão da sala", owner: "Sandra" }),
+  makeItem({ title: "Mesa", owner: null }),
+  makeItem({ title: "  ", owner: "Pai" }),
+  makeItem({ title: null, owner: null }),
+];
+
+const none = { q: "", ownerFilter: "todos", onlyUntitled: false, ...NO_FACETS };
+
+describe("filterItems", () => {
+  it("sem filtros devolve tudo", () => {
+    expect(filterItems(items, none)).toHaveLength(4);
+  });
+
+  it("pesquisa no título sem distinguir maiúsculas", () => {
+    expect(filterItems(items, { ...none, q: " CADEIRÃO " }).map(i => i.title)).toEqual(["Cadeirão da sala"]);
+  });
+
+  it("pesquisa sem acentos e com várias palavras em qualquer ordem", () => {
+    expect(filterItems(items, { ...none, q: "cadeirao" }).map(i => i.title)).toEqual(["Cadeirão da sala"]);
+    expect(filterItems(items, { ...none, q: "sala  cadeir" }).map(i => i.title)).toEqual(["Cadeirão da sala"]);
+    expect(filterItems(items, { ...none, q: "sala mesa" })).toEqual([]);
+  });
+
+  it("novidades: itens novos ou alterados por outra pessoa desde a última visita", () => {
+    const since = "2024-06-01T00:00:00.000Z";
+    const fresh = makeItem({ created_at: "2024-06-02T00:00:00.000Z" });
+    const editedByOther = makeItem({ updated_at: "2024-06-02T00:00:00.000Z", updated_by: "Pai" });
+    const editedByMe = makeItem({ updated_at: "2024-06-02T00:00:00.000Z", updated_by: "Sofia" });
+    const list = [...items, fresh, editedByOther, editedByMe];
+    expect(filterItems(list, { ...none, news: { since, me: "Sofia" } })).toEqual([fresh, editedByOther]);
+  });
+
+  it("filtra por dono e por sem dono", () => {
+    expect(filterItems(items, { ...none, ownerFilter: "Pai" })).toEqual([items[2]]);
+    expect(filterItems(items, { ...none, ownerFilter: "__none__" })).toEqual([items[1], items[3]]);
+  });
+
+  it("arquivados ficam escondidos exceto no filtro Arquivados", () => {
+    const archived = makeItem({ archived_at: "2024-02-01T00:00:00Z" });
+    expect(filterItems([...items, archived], none)).toHaveLength(4);
+    expect(filterItems([...items, archived], { ...none, ownerFilter: "__archived__" })).toEqual([archived]);
+  });
+
+  it("só sem título inclui títulos em branco", () => {
+    expect(filterItems(items, { ...none, onlyUntitled: true })).toEqual([items[2], items[3]]);
+  });
+});
+
+describe("facetas", () => {
+  const list = [
+    makeItem({ location: "Garagem", category: "Ferramentas", tags: ["pesado"], owner: "Pai" }),
+    makeItem({ location: "Garagem", category: "Loiça", tags: ["frágil"] }),
+    makeItem({ location: "Sala", category: "Loiça", tags: ["frágil", "antigo"] }),
+    makeItem({ location: null, category: null }),
+  ];
+
+  it("filtra por divisão, categoria e todas as etiquetas", () => {
+    expect(filterItems(list, { ...none, location: "Garagem" })).toEqual([list[0], list[1]]);
+    expect(filterItems(list, { ...none, location: "__none__" })).toEqual([list[3]]);
+    expect(filterItems(list, { ...none, category: "Loiça", tags: ["frágil", "antigo"] })).toEqual([list[2]]);
+  });
+
+  it("conta cada faceta com os outros filtros aplicados", () => {
+    const f = facetCounts(list, { ...none, category: "Loiça" });
+    expect(f.locations).toEqual([{ value: "Garagem", count: 1 }, { value: "Sala", count: 1 }]);
+    // a própria faceta ignora a seleção atual
+    expect(f.categories).toEqual([{ value: "Ferramentas", count: 1 }, { value: "Loiça", count: 2 }]);
+    expect(f.noCategory).toBe(1);
+    expect(f.tags).toEqual([{ value: "antigo", count: 1 }, { value: "frágil", count: 2 }]);
+  });
+
+  it("combina com o filtro de dono", () => {
+    expect(facetCounts(list, { ...none, ownerFilter: "Pai" }).locations).toEqual([{ value: "Garagem", count: 1 }]);
+  });
+});
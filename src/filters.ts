@@ -0,0 +1,91 @@
+// Filtros da grelha: o servidor aplica os mesmos em item_matches; aqui servem a exportação,
+// o repositório em memória e a junção das alterações em tempo real
+import type { Item } from "./types";
+
+export type ItemFilters = {
+  q: string;
+  ownerFilter: string;   // "todos", "__none__", "__archived__" ou um nome
+  onlyUntitled: boolean;
+  location: string;      // "todas", "__none__" ou uma divisão
+  category: string;      // "todas", "__none__" ou uma categoria
+  tags: string[];        // o item tem de ter todas
+  news?: { since: string; me: string } | null;   // só o que mudou desde a última visita
+};
+
+export const NO_FACETS = { location: "todas", category: "todas", tags: [] as string[] };
+
+export const NO_FILTERS: ItemFilters = { q: "", ownerFilter: "todos", onlyUntitled: false, ...NO_FACETS };
+
+// sem acentos nem maiúsculas (espelha search_normalize no servidor)
+export function normalizeSearch(text: string | null) {
+  return (text || "").normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase();
+}
+
+function matchesFacet(value: string | null, filter: string) {
+  if (filter === "todas") return true;
+  if (filter === "__none__") return !value;
+  return value === filter;
+}
+
+// espelha item_matches no servidor, para juntar as alterações em tempo real à lista carregada
+export function matchesFilters(item: Item, filters: ItemFilters) {
+  const { q, ownerFilter, onlyUntitled, location, category, tags, news } = filters;
+  // arquivados só aparecem no filtro próprio
+  if (ownerFilter === "__archived__" ? !item.archived_at : item.archived_at) return false;
+  if (ownerFilter === "__none__" && item.owner) return false;
+  if (ownerFilter !== "todos" && ownerFilter !== "__none__" && ownerFilter !== "__archived__" && item.owner !== ownerFilter) return false;
+  if (onlyUntitled && item.title && item.title.trim() !== "") return false;
+  if (!matchesFacet(item.location, location) || !matchesFacet(item.category, category)) return false;
+  if (!tags.every(t => item.tags.includes(t))) return false;
+  if (news && !(item.created_at > news.since || (item.updated_at > news.since && item.updated_by !== news.me))) return false;
+  // todas as palavras têm de aparecer no título
+  const title = normalizeSearch(item.title);
+  return normalizeSearch(q).split(/\s+/).every(w => !w || title.includes(w));
+}
+
+export function filterItems(items: Item[], filters: ItemFilters): Item[] {
+  return items.filter(i => matchesFilters(i, filters));
+}
+
+export type FacetCount = { value: string; count: number };
+
+export type Facets = {
+  locations: FacetCount[];
+  categories: FacetCount[];
+  tags: FacetCount[];
+  noLocation: number;
+  noCategory: number;
+};
+
+export const NO_FACET_COUNTS: Facets = { locations: [], categories: [], tags: [], noLocation: 0, noCategory: 0 };
+
+function countBy(values: string[]): FacetCount[] {
+  const map = new Map<string, number>();
+  for (const v of values) map.set(v, (map.get(v) || 0) + 1);
+  return [...map.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value, "pt"));
+}
+
+// contagens de cada faceta com todos os outros filtros aplicados
+export function facetCounts(items: Item[], filters: ItemFilters): Facets {
+  const byLocation = filterItems(items, { ...filters, location: "todas" });
+  const byCategory = filterItems(items, { ...filters, category: "todas" });
+  const byTags = filterItems(items, { ...filters, tags: [] });
+  return {
+    locations: countBy(byLocation.flatMap(i => (i.location ? [i.location] : []))),
+    categories: countBy(byCategory.flatMap(i => (i.category ? [i.category] : []))),
+    tags: countBy(byTags.flatMap(i => i.tags)),
+    noLocation: byLocation.filter(i => !i.location).length,
+    noCategory: byCategory.filter(i => !i.category).length,
+  };
+}
+
+// valores já usados, para sugerir ao editar (a partir das facetas sem filtros)
+export function knownFromFacets(facets: Facets) {
+  return {
+    locations: facets.locations.map(f => f.value),
+    categories: facets.categories.map(f => f.value),
+    tags: facets.tags.map(f => f.value),
+  };
+}
@@ -0,0 +1,130 @@
+// Histórico de alterações por item (preenchido pelo trigger log_item_change)
+import { supabase } from "./supabase";
+import { Identity, canSetOwner, canToggleInterest } from "./identity";
+import { formatEuros } from "./fairness";
+
+export type TrackedValues = {
+  title?: string | null;
+  owner?: string | null;
+  also_want?: string[];
+  location?: string | null;
+  category?: string | null;
+  tags?: string[];
+  estimated_value?: number | null;
+};
+
+export type HistoryEntry = {
+  id: number;
+  item_id: string;
+  changed_by: string | null;
+  changed_at: string;
+  old_values: TrackedValues;
+  new_values: TrackedValues;
+};
+
+type CurrentValues = {
+  title: string | null;
+  owner: string | null;
+  also_want: string[];
+  location: string | null;
+  category: string | null;
+  tags: string[];
+  estimated_value: number | null;
+};
+
+export async function fetchItemHistory(itemId: string) {
+  const { data, error } = await supabase
+    .from("item_history")
+    .select("*")
+    .eq("item_id", itemId)
+    .order("changed_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as HistoryEntry[];
+}
+
+export async function fetchRecentActivity(limit = 50) {
+  const { data, error } = await supabase
+    .from("item_history")
+    .select("*")
+    .order("changed_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as HistoryEntry[];
+}
+
+// abaixo do max_rows do PostgREST
+const CHANGES_PAGE = 500;
+
+// todas as alterações feitas depois de um dado momento (para o resumo de novidades), página a página
+export async function fetchChangesSince(since: string) {
+  const all: HistoryEntry[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .from("item_history")
+      .select("*")
+      .gt("changed_at", since)
+      .order("changed_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(all.length, all.length + CHANGES_PAGE - 1);
+    if (error) throw error;
+    const rows = (data || []) as HistoryEntry[];
+    all.push(...rows);
+    if (rows.length < CHANGES_PAGE) return all;
+  }
+}
+
+export function formatValue(key: keyof TrackedValues, v: TrackedValues[keyof TrackedValues]) {
+  if (key === "also_want") return (v as string[] | undefined)?.join(", ") || "ninguém";
+  if (key === "tags") return (v as string[] | undefined)?.join(", ") || "sem etiquetas";
+  if (key === "owner") return (v as string | null) || "Sem dono";
+  if (key === "title") return (v as string | null) || "sem título";
+  if (key === "estimated_value") return formatEuros(v as number | null);
+  return (v as string | null) || "—";
+}
+
+export const FIELD_LABELS: Record<keyof TrackedValues, string> = {
+  title: "Título",
+  owner: "Dono",
+  also_want: "Interessados",
+  location: "Divisão",
+  category: "Categoria",
+  tags: "Etiquetas",
+  estimated_value: "Valor estimado",
+};
+
+// uma linha por campo alterado: "Dono: Sandra → Sofia"
+export function describeChange(entry: HistoryEntry): string[] {
+  return (Object.keys(entry.new_values) as (keyof TrackedValues)[]).map(key =>
+    `${FIELD_LABELS[key]}: ${formatValue(key, entry.old_values[key])} → ${formatValue(key, entry.new_values[key])}`,
+  );
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// só se desfaz enquanto o item mantém os valores que esta alteração deixou
+export function isUndoable(entry: HistoryEntry, current: CurrentValues | undefined) {
+  if (!current) return false;
+  return (Object.keys(entry.new_values) as (keyof TrackedValues)[])
+    .every(key => sameValue(current[key], entry.new_values[key]));
+}
+
+// o desfazer segue as mesmas regras de permissão que uma edição normal
+export function canUndo(me: Identity, entry: HistoryEntry, current: CurrentValues | undefined) {
+  if (!isUndoable(entry, current) || !current) return false;
+  if (me.admin) return true;
+  if ("estimated_value" in entry.old_values) return false;
+  if ("owner" in entry.old_values && !canSetOwner(me, current.owner, entry.old_values.owner ?? null)) return false;
+  if ("also_want" in entry.old_values) {
+    const before = new Set(entry.old_values.also_want || []);
+    const after = new Set(current.also_want);
+    const touched = [...before, ...after].filter(n => before.has(n) !== after.has(n));
+    if (!touched.every(n => canToggleInterest(me, n))) return false;
+  }
+  return true;
+}
+
+export function undoPatch(entry: HistoryEntry): TrackedValues {
+  return { ...entry.old_values };
+}
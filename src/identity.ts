@@ -0,0 +1,76 @@
+// Identidade da sessão: quem está a editar e se desbloqueou o modo admin.
+// A sessão vive no servidor (tabela sessions); aqui guarda-se só o token.
+import { supabase } from "./supabase";
+
+export type Identity = {
+  name: string;
+  token: string;
+  admin: boolean;   // só fica true depois de confirmado pelo servidor
+};
+
+const STORAGE_KEY = "gallery:identity";
+
+export function loadIdentity(): Identity | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.name !== "string" || typeof parsed?.token !== "string") return null;
+    return { name: parsed.name, token: parsed.token, admin: false };
+  } catch {
+    return null;
+  }
+}
+
+export function saveIdentity(identity: Identity | null) {
+  if (identity) sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ name: identity.name, token: identity.token }));
+  else sessionStorage.removeItem(STORAGE_KEY);
+}
+
+// erro devolvido pelas RPCs quando o token já não é válido
+export const SESSION_EXPIRED = "28000";
+// demasiadas tentativas falhadas de código ou PIN (bloqueio temporário)
+export const TOO_MANY_ATTEMPTS = "P0429";
+
+export async function memberLogin(name: string, code: string): Promise<Identity | null> {
+  const { data, error } = await supabase.rpc("member_login", { p_name: name, p_code: code });
+  if (error) throw error;
+  return data ? { name, token: data as string, admin: false } : null;
+}
+
+// estado da sessão segundo o servidor; null se expirou
+export async function fetchSession(token: string): Promise<Identity | null> {
+  const { data, error } = await supabase.rpc("session_info", { p_token: token });
+  if (error) throw error;
+  const row = (data as { name: string; is_admin: boolean }[] | null)?.[0];
+  return row ? { name: row.name, token, admin: row.is_admin } : null;
+}
+
+export async function elevateAdmin(token: string, pin: string) {
+  const { data, error } = await supabase.rpc("admin_elevate", { p_token: token, p_pin: pin });
+  if (error) throw error;
+  return data === true;
+}
+
+export async function dropAdmin(token: string) {
+  const { error } = await supabase.rpc("admin_drop", { p_token: token });
+  if (error) throw error;
+}
+
+export async function logout(token: string) {
+  await supabase.rpc("logout", { p_token: token });
+}
+
+/* ---------- Regras de edição ---------- */
+
+// sem admin, só se pode ficar com um item livre ou largar um item próprio
+export function canSetOwner(me: Identity, currentOwner: string | null, nextOwner: string | null) {
+  if (me.admin) return true;
+  if (currentOwner && currentOwner !== me.name) return false;
+  return nextOwner === null || nextOwner === me.name;
+}
+
+// sem admin, cada pessoa só se adiciona/remove a si própria dos interessados
+export function canToggleInterest(me: Identity, name: string) {
+  return me.admin || name === me.name;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { imageSources, rememberSource } from "./images";
+
+const ID = "1AbCdEfGhIjKlMnOpQrStUvWxYz";
+const DRIVE = `https://drive.google.com/uc?export=view&id=${ID}`;
+
+describe("fontes de imagem", () => {
+  it("tenta o link original e depois as variantes do Drive", () => {
+    expect(imageSources(DRIVE, 600).map(s => s.src)).toEqual([
+      DRIVE,
+      `https://lh3.googleusercontent.com/d/${ID}=w600`,
+      `https://drive.google.com/thumbnail?id=${ID}&sz=w600`,
+    ]);
+    expect(imageSources("https://example.com/a.jpg", 600)).toEqual([{ kind: "original", src: "https://example.com/a.jpg" }]);
+  });
+
+  it("começa pela fonte que já funcionou, à largura pedida", () => {
+    expect(imageSources(DRIVE, 2000, { [DRIVE]: "lh3" })[0]).toEqual({
+      kind: "lh3",
+      src: `https://lh3.googleusercontent.com/d/${ID}=w2000`,
+    });
+  });
+
+  it("só guarda fontes diferentes do link original", () => {
+    const empty = {};
+    expect(rememberSource(empty, DRIVE, "original")).toBe(empty);
+    const saved = rememberSource(empty, DRIVE, "thumbnail");
+    expect(saved).toEqual({ [DRIVE]: "thumbnail" });
+    expect(rememberSource(saved, DRIVE, "thumbnail")).toBe(saved);
+    expect(rememberSource(saved, DRIVE, "original")).toEqual({});
+  });
+});
@@ -0,0 +1,79 @@
+// Fontes alternativas para cada imagem: o link guardado nem sempre carrega (sobretudo os do Drive),
+// por isso tenta-se uma lista ordenada e guarda-se no browser a fonte que funcionou
+import { extractDriveId } from "./importer";
+
+const WORKING_KEY = "gallery:image-sources";
+
+// o tipo de fonte, e não o URL, para se poder pedir cada imagem à largura certa
+export type SourceKind = "original" | "lh3" | "thumbnail" | "uc";
+export type ImageSource = { kind: SourceKind; src: string };
+
+// link guardado -> tipo de fonte que carregou da última vez
+export type WorkingSources = Record<string, SourceKind>;
+
+function sourceFor(kind: SourceKind, url: string, id: string | null, width: number): string | null {
+  if (kind === "original") return url;
+  if (!id) return null;
+  if (kind === "lh3") return `https://lh3.googleusercontent.com/d/${id}=w${width}`;
+  if (kind === "thumbnail") return `https://drive.google.com/thumbnail?id=${id}&sz=w${width}`;
+  return `https://drive.google.com/uc?export=view&id=${id}`;
+}
+
+const SOURCE_ORDER: SourceKind[] = ["original", "lh3", "thumbnail", "uc"];
+
+// ordem: a fonte que já funcionou, o link original e, para o Drive, as variantes conhecidas
+export function imageSources(url: string, width: number, working: WorkingSources = {}): ImageSource[] {
+  const id = extractDriveId(url);
+  const preferred = working[url];
+  const kinds = preferred ? [preferred, ...SOURCE_ORDER.filter(k => k !== preferred)] : SOURCE_ORDER;
+  const out: ImageSource[] = [];
+  for (const kind of kinds) {
+    const src = sourceFor(kind, url, id, width);
+    if (src && !out.some(s => s.src === src)) out.push({ kind, src });
+  }
+  return out;
+}
+
+// só se guarda quando não foi o link original (o caso normal não ocupa espaço)
+export function rememberSource(working: WorkingSources, url: string, kind: SourceKind): WorkingSources {
+  if (working[url] === kind || (kind === "original" && !working[url])) return working;
+  const next = { ...working };
+  if (kind === "original") delete next[url];
+  else next[url] = kind;
+  return next;
+}
+
+function loadWorkingSources(): WorkingSources {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(WORKING_KEY) || "{}");
+    if (!parsed || typeof parsed !== "object") return {};
+    // ignora valores que não são um tipo de fonte conhecido
+    return Object.fromEntries(Object.entries(parsed).filter(([, k]) => SOURCE_ORDER.includes(k as SourceKind))) as WorkingSources;
+  } catch {
+    return {};
+  }
+}
+
+// lido uma vez e partilhado por todas as imagens da página
+let working: WorkingSources | null = null;
+
+export function workingSources() {
+  if (!working) working = loadWorkingSources();
+  return working;
+}
+
+export function noteWorkingSource(url: string, kind: SourceKind) {
+  const next = rememberSource(workingSources(), url, kind);
+  if (next === working) return;
+  working = next;
+  try {
+    localStorage.setItem(WORKING_KEY, JSON.stringify(next));
+  } catch {
+    // sem armazenamento local: a próxima visita volta a tentar pela ordem normal
+  }
+}
+
+// a primeira fonte a tentar (para pré-carregar)
+export function preferredSource(url: string, width: number) {
+  return imageSources(url, width, workingSources())[0].src;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { extractDriveId, imageKey, normalizeImageUrl, parseImportText, planImport } from "./importer";
+
+const ID = "1AbcDEFghijklmnopqrstuvwxyz";
+const VIEW = `https://drive.google.com/uc?export=view&id=${ID}`;
+
+describe("normalizeImageUrl", () => {
+  it.each([
+    `https://drive.google.com/file/d/${ID}/view?usp=sharing`,
+    `https://drive.google.com/open?id=${ID}`,
+    `https://drive.google.com/uc?id=${ID}&export=download`,
+    `https://drive.google.com/uc?export=view&id=${ID}`,
+    `https://lh3.googleusercontent.com/d/${ID}=w1200`,
+    ID,
+  ])("converte %s para o link de visualização", raw => {
+    expect(normalizeImageUrl(raw)).toBe(VIEW);
+  });
+
+  it("mantém outros links e limpa espaços", () => {
+    expect(normalizeImageUrl("  https://example.com/a.jpg ")).toBe("https://example.com/a.jpg");
+    expect(normalizeImageUrl("   ")).toBe("");
+  });
+});
+
+describe("imageKey", () => {
+  it("usa o ID do Drive independentemente do formato", () => {
+    expect(imageKey(`https://drive.google.com/file/d/${ID}/view`)).toBe(imageKey(VIEW));
+    expect(extractDriveId("https://example.com/a.jpg")).toBeNull();
+  });
+});
+
+describe("parseImportText + planImport", () => {
+  it("aceita CSV com cabeçalho, aspas e interessados", () => {
+    const rows = parseImportText(`url,titulo,dono,interessados\n${ID},"Cadeirão, sala",Sandra,Sofia;Pai`);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ image_url: VIEW, title: "Cadeirão, sala", owner: "Sandra", also_want: ["Sofia", "Pai"] });
+  });
+
+  it("aceita TSV sem cabeçalho e um link por linha", () => {
+    const rows = parseImportText(`https://example.com/a.jpg\tMesa\nhttps://example.com/b.jpg`);
+    expect(rows.map(r => r.title)).toEqual(["Mesa", null]);
+  });
+
+  it("marca novos, duplicados, inválidos e pessoas desconhecidas", () => {
+    const rows = parseImportText([
+      `https://drive.google.com/open?id=${ID}`,
+      "https://example.com/novo.jpg,,Sandra,Sandra;Sofia",
+      "https://example.com/novo.jpg",
+      "não é link",
+      "https://example.com/outro.jpg,,Zé",
+    ].join("\n"));
+    const plan = planImport(rows, [{ image_url: VIEW }], ["Sandra", "Sofia"]);
+    expect(plan.map(r => r.status)).toEqual(["duplicate", "new", "duplicate", "invalid", "unknown_owner"]);
+    expect(plan[1].also_want).toEqual(["Sofia"]);
+  });
+});
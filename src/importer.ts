@@ -0,0 +1,158 @@
+// Importação de imagens: links soltos ou CSV/TSV com metadados
+
+export type ImportStatus = "new" | "duplicate" | "invalid" | "unknown_owner";
+
+export type ParsedRow = {
+  line: number;            // linha no texto original (1-based)
+  raw: string;
+  image_url: string;
+  title: string | null;
+  owner: string | null;
+  also_want: string[];
+};
+
+export type PlannedRow = ParsedRow & {
+  status: ImportStatus;
+  message: string;
+};
+
+type ExistingItem = { image_url: string; merged_image_urls?: string[] };
+
+const DRIVE_ID = "[A-Za-z0-9_-]{10,}";
+const DRIVE_PATTERNS = [
+  new RegExp(`^https?://drive\\.google\\.com/file/d/(${DRIVE_ID})`),
+  new RegExp(`^https?://drive\\.google\\.com/(?:open|uc|thumbnail)\\?(?:.*&)?id=(${DRIVE_ID})`),
+  new RegExp(`^https?://docs\\.google\\.com/uc\\?(?:.*&)?id=(${DRIVE_ID})`),
+  new RegExp(`^https?://lh3\\.googleusercontent\\.com/d/(${DRIVE_ID})`),
+];
+// IDs de ficheiros do Drive colados sem link
+const BARE_ID = /^[A-Za-z0-9_-]{25,}$/;
+
+export function extractDriveId(raw: string): string | null {
+  const url = raw.trim();
+  if (BARE_ID.test(url)) return url;
+  for (const re of DRIVE_PATTERNS) {
+    const m = url.match(re);
+    if (m && m[1]) return m[1];
+  }
+  return null;
+}
+
+export function normalizeImageUrl(raw: string) {
+  const url = raw.trim();
+  if (!url) return url;
+  const id = extractDriveId(url);
+  if (id) return `https://drive.google.com/uc?export=view&id=${id}`;
+  return url;
+}
+
+// chave de deduplicação: o ID do Drive quando existe, senão o próprio link
+export function imageKey(url: string) {
+  const id = extractDriveId(url);
+  return id ? `drive:${id}` : url.trim();
+}
+
+/* ---------- CSV/TSV ---------- */
+
+// separa uma linha respeitando aspas ("a, b" e "" dentro de aspas)
+export function splitDelimited(line: string, delimiter: string): string[] {
+  const out: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      out.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  out.push(cell.trim());
+  return out;
+}
+
+type Column = "image_url" | "title" | "owner" | "also_want";
+
+const HEADER_ALIASES: Record<string, Column> = {
+  image_url: "image_url", url: "image_url", link: "image_url", imagem: "image_url", image: "image_url",
+  title: "title", titulo: "title", "título": "title",
+  owner: "owner", dono: "owner",
+  also_want: "also_want", interessados: "also_want", "também quer": "also_want",
+};
+
+// sem cabeçalho, as colunas seguem esta ordem
+const DEFAULT_COLUMNS: Column[] = ["image_url", "title", "owner", "also_want"];
+
+function detectDelimiter(lines: string[]) {
+  if (lines.some(l => l.includes("\t"))) return "\t";
+  if (lines.some(l => l.includes(";")) && !lines.some(l => l.includes(","))) return ";";
+  return ",";
+}
+
+function splitNames(cell: string) {
+  return cell.split(/[;|,]/).map(s => s.trim()).filter(Boolean);
+}
+
+export function parseImportText(text: string): ParsedRow[] {
+  const lines = text.split(/\r?\n/).map((raw, idx) => ({ raw, line: idx + 1 })).filter(l => l.raw.trim());
+  if (!lines.length) return [];
+
+  const delimiter = detectDelimiter(lines.map(l => l.raw));
+  let columns = DEFAULT_COLUMNS;
+  const header = splitDelimited(lines[0].raw, delimiter).map(h => HEADER_ALIASES[h.toLowerCase()]);
+  if (header.includes("image_url")) {
+    columns = header as Column[];
+    lines.shift();
+  }
+
+  return lines.map(({ raw, line }) => {
+    // linha sem separador: só o link (o formato antigo, um link por linha)
+    const cells = raw.includes(delimiter) ? splitDelimited(raw, delimiter) : [raw.trim()];
+    const get = (c: Column) => {
+      const idx = columns.indexOf(c);
+      return idx >= 0 ? (cells[idx] || "").trim() : "";
+    };
+    return {
+      line,
+      raw,
+      image_url: normalizeImageUrl(get("image_url")),
+      title: get("title") || null,
+      owner: get("owner") || null,
+      also_want: splitNames(get("also_want")),
+    };
+  });
+}
+
+/* ---------- Simulação ---------- */
+
+export function planImport(rows: ParsedRow[], existing: ExistingItem[], knownNames: string[]): PlannedRow[] {
+  const existingKeys = new Set(existing.flatMap(i => [i.image_url, ...(i.merged_image_urls || [])]).map(imageKey));
+  const seen = new Set<string>();
+  return rows.map(row => {
+    if (!row.image_url.startsWith("http")) {
+      return { ...row, status: "invalid", message: "Link inválido" };
+    }
+    const key = imageKey(row.image_url);
+    if (existingKeys.has(key)) {
+      return { ...row, status: "duplicate", message: "Já existe" };
+    }
+    if (seen.has(key)) {
+      return { ...row, status: "duplicate", message: "Repetido na lista" };
+    }
+    const unknown = [row.owner, ...row.also_want].filter((n): n is string => !!n && !knownNames.includes(n));
+    if (unknown.length) {
+      return { ...row, status: "unknown_owner", message: `Desconhecido: ${unknown.join(", ")}` };
+    }
+    seen.add(key);
+    const also_want = Array.from(new Set(row.also_want.filter(n => n !== row.owner)));
+    return { ...row, also_want, status: "new", message: "Novo" };
+  });
+}
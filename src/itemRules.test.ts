@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { ownerChangePatch, reassignPatch, relinkedFields, sanitizeInterested, toggleInterestPatch } from "./itemRules";
+
+const KNOWN = ["Mãe", "Pai", "Sandra", "Sofia"];
+
+describe("sanitizeInterested", () => {
+  it("remove repetidos e nomes desconhecidos, mantendo a ordem", () => {
+    expect(sanitizeInterested(["Sofia", "Zé", "Pai", "Sofia"], KNOWN)).toEqual(["Sofia", "Pai"]);
+  });
+});
+
+describe("ownerChangePatch", () => {
+  it("tira o novo dono dos interessados", () => {
+    expect(ownerChangePatch({ also_want: ["Sofia", "Pai"] }, "Sofia", KNOWN))
+      .toEqual({ owner: "Sofia", also_want: ["Pai"] });
+  });
+
+  it("passar para sem dono mantém os interessados", () => {
+    expect(ownerChangePatch({ also_want: ["Sofia"] }, null, KNOWN))
+      .toEqual({ owner: null, also_want: ["Sofia"] });
+  });
+});
+
+describe("toggleInterestPatch", () => {
+  it("junta e tira a pessoa dos interessados", () => {
+    expect(toggleInterestPatch({ owner: "Pai", also_want: ["Sofia"] }, "Mãe", KNOWN)).toEqual({ also_want: ["Sofia", "Mãe"] });
+    expect(toggleInterestPatch({ owner: "Pai", also_want: ["Sofia", "Mãe"] }, "Mãe", KNOWN)).toEqual({ also_want: ["Sofia"] });
+  });
+
+  it("o dono não se junta aos interessados", () => {
+    expect(toggleInterestPatch({ owner: "Pai", also_want: [] }, "Pai", KNOWN)).toEqual({ also_want: [] });
+  });
+});
+
+describe("relinkedFields", () => {
+  it("guarda o link antigo e não repete o novo", () => {
+    expect(relinkedFields({ image_url: "a", merged_image_urls: ["b", "c"] }, "c"))
+      .toEqual({ image_url: "c", merged_image_urls: ["b", "a"] });
+  });
+});
+
+describe("reassignPatch", () => {
+  it("o dono anterior passa a interessado e o novo sai dos interessados", () => {
+    expect(reassignPatch({ owner: "Pai", also_want: ["Sofia", "Mãe"] }, "Sofia", KNOWN))
+      .toEqual({ owner: "Sofia", also_want: ["Mãe", "Pai"] });
+  });
+});
@@ -0,0 +1,57 @@
+// Regras de edição de um item que não dependem de quem edita
+import type { Item } from "./types";
+
+// remove repetidos e nomes que não são pessoas conhecidas
+export function sanitizeInterested(list: string[], known: string[]): string[] {
+  const set = new Set(list.filter(n => known.includes(n)));
+  return Array.from(set);
+}
+
+// junta dois itens duplicados (espelha merge_items no servidor)
+export function mergedFields(keep: Item, drop: Item, primaryUrl: string) {
+  const owner = keep.owner ?? drop.owner;
+  const secondary = primaryUrl === keep.image_url ? drop.image_url : keep.image_url;
+  const interested = [...keep.also_want, ...drop.also_want, ...(drop.owner ? [drop.owner] : [])];
+  return {
+    image_url: primaryUrl,
+    merged_image_urls: [...keep.merged_image_urls, ...drop.merged_image_urls, secondary].filter(u => u !== primaryUrl),
+    title: keep.title ?? drop.title,
+    owner,
+    also_want: Array.from(new Set(interested.filter(n => n !== owner))),
+    location: keep.location ?? drop.location,
+    category: keep.category ?? drop.category,
+    estimated_value: keep.estimated_value ?? drop.estimated_value,
+    tags: Array.from(new Set([...keep.tags, ...drop.tags])),
+    archived_at: keep.archived_at && drop.archived_at ? keep.archived_at : null,
+  };
+}
+
+// novo link para a foto (espelha relink_item_image): o antigo fica guardado para a importação o reconhecer
+export function relinkedFields(item: Pick<Item, "image_url" | "merged_image_urls">, imageUrl: string) {
+  return {
+    image_url: imageUrl,
+    merged_image_urls: [...item.merged_image_urls.filter(u => u !== item.image_url), item.image_url]
+      .filter(u => u !== imageUrl),
+  };
+}
+
+// o novo dono deixa de constar como interessado
+export function ownerChangePatch(item: Pick<Item, "also_want">, newOwner: string | null, known: string[]) {
+  const also_want = sanitizeInterested(item.also_want.filter(n => n !== newOwner), known);
+  return { owner: newOwner, also_want };
+}
+
+// o admin passa o item a outra pessoa sem apagar o pedido de quem o tinha
+// (como na atribuição: quem perde fica nos interessados)
+export function reassignPatch(item: Pick<Item, "owner" | "also_want">, newOwner: string | null, known: string[]) {
+  const previous = item.owner && item.owner !== newOwner ? [item.owner] : [];
+  const also_want = sanitizeInterested([...item.also_want, ...previous].filter(n => n !== newOwner), known);
+  return { owner: newOwner, also_want };
+}
+
+// "eu também quero": junta ou tira a pessoa dos interessados (o dono não entra)
+export function toggleInterestPatch(item: Pick<Item, "owner" | "also_want">, name: string, known: string[]) {
+  if (item.also_want.includes(name)) return { also_want: item.also_want.filter(n => n !== name) };
+  if (item.owner === name) return { also_want: item.also_want };
+  return { also_want: sanitizeInterested([...item.also_want, name], known) };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { LoadedItems, appendPage, fetchAllMatching, mergeChange, needsRecount } from "./itemsQuery";
+import { createMemoryItemsRepository } from "./memoryItemsRepository";
+import { NO_FILTERS } from "./filters";
+import { makeItem } from "./testItems";
+
+// makeItem cria itens cada vez mais recentes; a lista vem do mais recente para o mais antigo
+const [oldest, older, newer, newest] = [makeItem(), makeItem(), makeItem(), makeItem()];
+const partial: LoadedItems = { items: [newest, newer], total: 4 };
+
+describe("mergeChange", () => {
+  it("um item novo no topo entra na lista e no total", () => {
+    const fresh = makeItem({ title: "Novo" });
+    expect(mergeChange(partial, { type: "INSERT", item: fresh }, NO_FILTERS)).toEqual({ items: [fresh, newest, newer], total: 5 });
+  });
+
+  it("editar um item fora da parte carregada não mexe no total", () => {
+    const edited = { ...oldest, title: "x" };
+    expect(mergeChange(partial, { type: "UPDATE", item: edited }, NO_FILTERS)).toEqual({ items: [newest, newer], total: 4 });
+    expect(needsRecount(partial, { type: "UPDATE", item: edited })).toBe(true);
+  });
+
+  it("só pede o total de novo quando não se sabe se o item contava", () => {
+    expect(needsRecount(partial, { type: "DELETE", id: oldest.id })).toBe(true);
+    expect(needsRecount(partial, { type: "DELETE", id: newer.id })).toBe(false);
+    expect(needsRecount(partial, { type: "INSERT", item: makeItem() })).toBe(false);
+    expect(needsRecount({ items: [newest, older], total: 2 }, { type: "DELETE", id: oldest.id })).toBe(false);
+  });
+
+  it("atualiza no sítio ou retira quando deixa de corresponder ao filtro", () => {
+    const renamed = { ...newer, title: "Mesa" };
+    expect(mergeChange(partial, { type: "UPDATE", item: renamed }, NO_FILTERS).items).toEqual([newest, renamed]);
+    const filters = { ...NO_FILTERS, q: "cadeira" };
+    const state = { items: [{ ...newest, title: "Cadeira" }], total: 1 };
+    expect(mergeChange(state, { type: "UPDATE", item: { ...newest, title: "Mesa" } }, filters)).toEqual({ items: [], total: 0 });
+  });
+
+  it("apagar retira e desconta do total", () => {
+    expect(mergeChange(partial, { type: "DELETE", id: newer.id }, NO_FILTERS)).toEqual({ items: [newest], total: 3 });
+    expect(mergeChange(partial, { type: "DELETE", id: "outro" }, NO_FILTERS)).toBe(partial);
+  });
+
+  it("com tudo carregado, um item antigo entra na posição certa", () => {
+    const all: LoadedItems = { items: [newest, older], total: 2 };
+    expect(mergeChange(all, { type: "INSERT", item: newer }, NO_FILTERS).items).toEqual([newest, newer, older]);
+  });
+});
+
+describe("appendPage", () => {
+  it("não repete itens que já chegaram em tempo real", () => {
+    expect(appendPage(partial, { items: [newer, older, oldest], total: 4 })).toEqual({ items: [newest, newer, older, oldest], total: 4 });
+  });
+});
+
+describe("fetchAllMatching", () => {
+  it("junta todas as páginas, para lá do limite de linhas do servidor", async () => {
+    const many = Array.from({ length: 1203 }, () => makeItem());
+    const all = await fetchAllMatching(createMemoryItemsRepository(many), NO_FILTERS);
+    expect(all).toHaveLength(1203);
+    expect(new Set(all.map(i => i.id)).size).toBe(1203);
+  });
+});
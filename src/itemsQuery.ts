@@ -0,0 +1,183 @@
+// Lista da grelha carregada aos poucos a partir do servidor, com as alterações em tempo real
+// juntas à parte já carregada. Também o inventário completo, só quando algum painel precisa dele.
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Item } from "./types";
+import type { ItemChange, ItemPatch, ItemsRepository } from "./itemsRepository";
+import { ItemFilters, matchesFilters } from "./filters";
+
+export type LoadedItems = {
+  items: Item[];   // primeiros itens do resultado, pela ordem do servidor
+  total: number;   // total no servidor para os filtros atuais
+};
+
+// mesma ordem que search_items: mais recentes primeiro
+export function compareItems(a: Item, b: Item) {
+  return b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id);
+}
+
+// um item que passa a corresponder só entra se couber na parte já carregada;
+// senão chega quando se carregar a página onde está (um INSERT conta logo para o total)
+export function mergeChange(state: LoadedItems, change: ItemChange, filters: ItemFilters): LoadedItems {
+  const id = change.type === "DELETE" ? change.id : change.item.id;
+  const idx = state.items.findIndex(i => i.id === id);
+
+  if (change.type === "DELETE" || !matchesFilters(change.item, filters)) {
+    if (idx < 0) return state;
+    return { items: state.items.filter(i => i.id !== id), total: Math.max(0, state.total - 1) };
+  }
+
+  const item = change.item;
+  if (idx >= 0) return { ...state, items: state.items.map(i => (i.id === id ? item : i)) };
+
+  const complete = state.items.length >= state.total;
+  const last = state.items[state.items.length - 1];
+  if (!complete && (!last || compareItems(item, last) > 0)) {
+    return change.type === "INSERT" ? { ...state, total: state.total + 1 } : state;
+  }
+  const items = [...state.items, item].sort(compareItems);
+  return { items, total: state.total + 1 };
+}
+
+// alteração a um item não carregado, para lá do último carregado: não se sabe se já contava
+// para o total, por isso o total é pedido de novo ao servidor
+export function needsRecount(state: LoadedItems, change: ItemChange) {
+  if (change.type === "INSERT" || state.items.length >= state.total) return false;
+  const id = change.type === "DELETE" ? change.id : change.item.id;
+  if (state.items.some(i => i.id === id)) return false;
+  if (change.type === "DELETE") return true;
+  const last = state.items[state.items.length - 1];
+  return !last || compareItems(change.item, last) > 0;
+}
+
+// junta uma página nova sem repetir itens que entretanto chegaram por tempo real
+export function appendPage(state: LoadedItems, page: LoadedItems): LoadedItems {
+  const seen = new Set(state.items.map(i => i.id));
+  return { items: [...state.items, ...page.items.filter(i => !seen.has(i.id))], total: page.total };
+}
+
+export const PAGE_SIZE = 48;
+// abaixo do max_rows do PostgREST, que corta respostas maiores sem avisar
+const FETCH_ALL_PAGE = 500;
+
+// todos os itens que correspondem aos filtros, página a página
+export async function fetchAllMatching(repo: ItemsRepository, filters: ItemFilters): Promise<Item[]> {
+  const all: Item[] = [];
+  for (;;) {
+    const page = await repo.search(filters, all.length, FETCH_ALL_PAGE);
+    all.push(...page.items);
+    if (!page.items.length || all.length >= page.total) return all;
+  }
+}
+
+const RECOUNT_DELAY_MS = 500;
+
+export function useItemsQuery(repo: ItemsRepository, filters: ItemFilters, onError: (err: any) => void) {
+  const [state, setState] = useState<LoadedItems>({ items: [], total: 0 });
+  const [loading, setLoading] = useState(true);
+  const filtersRef = useRef(filters);
+  const requestRef = useRef(0);
+  const loadingRef = useRef(false);
+  const stateRef = useRef(state);
+  filtersRef.current = filters;
+  stateRef.current = state;
+
+  const key = JSON.stringify(filters);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    loadingRef.current = true;
+    setLoading(true);
+    repo.search(filters, 0, PAGE_SIZE)
+      .then(page => { if (request === requestRef.current) setState(page); })
+      .catch(err => { if (request === requestRef.current) onError(err); })
+      .finally(() => {
+        if (request !== requestRef.current) return;
+        loadingRef.current = false;
+        setLoading(false);
+      });
+  }, [repo, key]);
+
+  const loadMore = useCallback(async () => {
+    const current = stateRef.current;
+    if (loadingRef.current || current.items.length >= current.total) return;
+    const request = requestRef.current;
+    loadingRef.current = true;
+    setLoading(true);
+    try {
+      const page = await repo.search(filtersRef.current, current.items.length, PAGE_SIZE);
+      if (request === requestRef.current) setState(prev => appendPage(prev, page));
+    } catch (err) {
+      if (request === requestRef.current) onError(err);
+    } finally {
+      if (request === requestRef.current) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [repo, onError]);
+
+  // várias alterações seguidas dão um só pedido
+  const recountRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => () => { if (recountRef.current) clearTimeout(recountRef.current); }, []);
+
+  const applyChange = useCallback((change: ItemChange) => {
+    if (needsRecount(stateRef.current, change)) {
+      if (recountRef.current) clearTimeout(recountRef.current);
+      recountRef.current = setTimeout(() => {
+        const request = requestRef.current;
+        repo.search(filtersRef.current, 0, 1)
+          .then(page => {
+            if (request !== requestRef.current) return;
+            setState(prev => ({ ...prev, total: Math.max(page.total, prev.items.length) }));
+          })
+          .catch(() => {});
+      }, RECOUNT_DELAY_MS);
+    }
+    setState(prev => mergeChange(prev, change, filtersRef.current));
+  }, [repo]);
+
+  const patchItem = useCallback((id: string, patch: ItemPatch) => {
+    setState(prev => ({ ...prev, items: prev.items.map(i => (i.id === id ? { ...i, ...patch } : i)) }));
+  }, []);
+
+  return {
+    items: state.items,
+    total: state.total,
+    loading,
+    hasMore: state.items.length < state.total,
+    loadMore,
+    applyChange,
+    patchItem,
+  };
+}
+
+// todos os itens (incluindo arquivados); só carregado enquanto `enabled`
+export function useInventory(repo: ItemsRepository, enabled: boolean) {
+  const [items, setItems] = useState<Item[] | null>(null);
+
+  useEffect(() => {
+    if (!enabled) { setItems(null); return; }
+    let active = true;
+    repo.list()
+      .then(list => { if (active) setItems(list); })
+      .catch(err => alert("Erro ao carregar os itens: " + (err?.message || err)));
+    return () => { active = false; };
+  }, [repo, enabled]);
+
+  const applyChange = useCallback((change: ItemChange) => {
+    setItems(prev => {
+      if (!prev) return prev;
+      if (change.type === "DELETE") return prev.filter(i => i.id !== change.id);
+      const { item } = change;
+      return prev.some(i => i.id === item.id)
+        ? prev.map(i => (i.id === item.id ? item : i))
+        : [item, ...prev].sort(compareItems);
+    });
+  }, []);
+
+  const patchItem = useCallback((id: string, patch: ItemPatch) => {
+    setItems(prev => prev && prev.map(i => (i.id === id ? { ...i, ...patch } : i)));
+  }, []);
+
+  return { items, applyChange, patchItem };
+}
@@ -0,0 +1,61 @@
+// Acesso aos itens: interface comum às implementações Supabase e em memória
+import type { Item } from "./types";
+import type { Facets, ItemFilters } from "./filters";
+
+export type ItemPatch = Partial<Pick<Item, "title" | "owner" | "also_want" | "location" | "category" | "tags" | "estimated_value">>;
+
+export type NewItem = {
+  image_url: string;
+  title: string | null;
+  owner: string | null;
+  also_want: string[];
+};
+
+// uma página de resultados e o total que corresponde aos filtros
+export type ItemPage = { items: Item[]; total: number };
+
+// resultado de cada item numa operação em lote
+export type BatchResult = { id: string; error: string | null };
+
+// resultado de cada linha importada, pela ordem enviada; sem id quando a linha foi recusada
+export type ImportResult = { id: string | null; error: string | null };
+
+export type ItemChange =
+  | { type: "INSERT" | "UPDATE"; item: Item }
+  | { type: "DELETE"; id: string };
+
+export type ItemsRepository = {
+  list(): Promise<Item[]>;
+  // filtros, pesquisa e paginação feitos por quem guarda os dados; ordem: mais recentes primeiro
+  search(filters: ItemFilters, offset: number, limit: number): Promise<ItemPage>;
+  facets(filters: ItemFilters): Promise<Facets>;
+  get(id: string): Promise<Item | null>;
+  update(token: string, id: string, patch: ItemPatch): Promise<void>;
+  importItems(token: string, rows: NewItem[]): Promise<ImportResult[]>;
+  // em lote: uma só chamada, um erro num item não impede os outros
+  updateMany(token: string, changes: { id: string; patch: ItemPatch }[]): Promise<BatchResult[]>;
+  // só admin
+  archive(token: string, id: string): Promise<void>;
+  archiveMany(token: string, ids: string[]): Promise<BatchResult[]>;
+  restore(token: string, id: string): Promise<void>;
+  remove(token: string, id: string): Promise<void>;
+  merge(token: string, keepId: string, dropId: string, primaryUrl: string): Promise<void>;
+  relinkImage(token: string, id: string, imageUrl: string): Promise<void>;
+  // devolve a função para cancelar a subscrição
+  subscribe(listener: (change: ItemChange) => void): () => void;
+};
+
+// also_want pode vir null da base de dados
+export function normalizeRow(row: any): Item {
+  return {
+    ...row,
+    also_want: Array.isArray(row.also_want) ? row.also_want : [],
+    location: row.location ?? null,
+    category: row.category ?? null,
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    // numeric pode chegar como texto
+    estimated_value: row.estimated_value == null ? null : Number(row.estimated_value),
+    archived_at: row.archived_at ?? null,
+    merged_image_urls: Array.isArray(row.merged_image_urls) ? row.merged_image_urls : [],
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryItemsRepository } from "./memoryItemsRepository";
+import type { ItemChange } from "./itemsRepository";
+import { NO_FILTERS } from "./filters";
+import { makeItem } from "./testItems";
+
+describe("createMemoryItemsRepository", () => {
+  it("lista os itens mais recentes primeiro", async () => {
+    const older = makeItem();
+    const newer = makeItem();
+    const repo = createMemoryItemsRepository([older, newer]);
+    expect((await repo.list()).map(i => i.id)).toEqual([newer.id, older.id]);
+  });
+
+  it("emite UPDATE e INSERT como o canal realtime", async () => {
+    const item = makeItem();
+    const repo = createMemoryItemsRepository([item], { sessions: { t1: "Sofia" } });
+    const events: ItemChange[] = [];
+    const unsubscribe = repo.subscribe(c => events.push(c));
+
+    await repo.update("t1", item.id, { owner: "Sofia" });
+    await repo.importItems("t1", [{ image_url: "https://example.com/x.jpg", title: null, owner: null, also_want: [] }]);
+    unsubscribe();
+    await repo.update("t1", item.id, { title: "depois" });
+
+    expect(events.map(e => e.type)).toEqual(["UPDATE", "INSERT"]);
+    const [updated, inserted] = events as Extract<ItemChange, { item: unknown }>[];
+    expect(updated.item).toMatchObject({ id: item.id, owner: "Sofia", updated_by: "Sofia" });
+    expect(inserted.item.image_url).toBe("https://example.com/x.jpg");
+  });
+
+  it("importação recusa só as linhas com pessoas desconhecidas", async () => {
+    const repo = createMemoryItemsRepository([], { people: ["Sofia", "Pai"] });
+    const results = await repo.importItems("t1", [
+      { image_url: "https://example.com/a.jpg", title: null, owner: "Sofia", also_want: ["Pai"] },
+      { image_url: "https://example.com/b.jpg", title: null, owner: "Ninguém", also_want: [] },
+      { image_url: "https://example.com/c.jpg", title: null, owner: null, also_want: ["Pai", "Outro"] },
+    ]);
+
+    expect(results.map(r => r.error)).toEqual([null, "Pessoa desconhecida: Ninguém", "Interessado desconhecido: Outro"]);
+    expect((await repo.list()).map(i => i.image_url)).toEqual(["https://example.com/a.jpg"]);
+  });
+
+  it("arquiva, restaura e apaga", async () => {
+    const item = makeItem();
+    const repo = createMemoryItemsRepository([item]);
+    const events: ItemChange[] = [];
+    repo.subscribe(c => events.push(c));
+
+    await repo.archive("t", item.id);
+    expect((await repo.get(item.id))?.archived_at).not.toBeNull();
+    await repo.restore("t", item.id);
+    expect((await repo.get(item.id))?.archived_at).toBeNull();
+    await repo.remove("t", item.id);
+
+    expect(await repo.list()).toEqual([]);
+    expect(events.map(e => e.type)).toEqual(["UPDATE", "UPDATE", "DELETE"]);
+  });
+
+  it("junta dois itens e emite UPDATE do que fica e DELETE do outro", async () => {
+    const keep = makeItem({ owner: "Sandra", also_want: ["Sofia"], category: "Relógios", tags: ["antigo", "sala"] });
+    const drop = makeItem({
+      title: "Relógio", owner: "Pai", also_want: ["Sofia", "Mãe"],
+      location: "Sala", category: "Decoração", tags: ["sala", "prata"], estimated_value: 80,
+    });
+    const repo = createMemoryItemsRepository([keep, drop]);
+    const events: ItemChange[] = [];
+    repo.subscribe(c => events.push(c));
+
+    await repo.merge("t", keep.id, drop.id, drop.image_url);
+
+    expect(events.map(e => e.type)).toEqual(["UPDATE", "DELETE"]);
+    expect(await repo.get(keep.id)).toMatchObject({
+      image_url: drop.image_url,
+      merged_image_urls: [keep.image_url],
+      title: "Relógio",
+      owner: "Sandra",
+      also_want: ["Sofia", "Mãe", "Pai"],
+      location: "Sala",
+      category: "Relógios",
+      tags: ["antigo", "sala", "prata"],
+      estimated_value: 80,
+    });
+    expect(await repo.get(drop.id)).toBeNull();
+  });
+
+  it("pesquisa por páginas com o total do filtro", async () => {
+    const list = [makeItem({ title: "Cadeirão" }), makeItem({ title: "Cadeira" }), makeItem({ title: "Mesa" })];
+    const repo = createMemoryItemsRepository(list);
+    const filters = { ...NO_FILTERS, q: "cadeira" };
+    expect(await repo.search(filters, 0, 1)).toEqual({ items: [list[1]], total: 2 });
+    expect((await repo.search(filters, 1, 1)).items).toEqual([list[0]]);
+  });
+
+  it("normaliza also_want nulo", async () => {
+    const repo = createMemoryItemsRepository([{ ...makeItem(), also_want: null as any }]);
+    expect((await repo.list())[0].also_want).toEqual([]);
+  });
+
+  it("falha ao atualizar um item inexistente", async () => {
+    const repo = createMemoryItemsRepository();
+    await expect(repo.update("t", "nope", { title: "x" })).rejects.toThrow("Item não encontrado");
+  });
+
+  it("em lote aplica o que pode e devolve o erro de cada item", async () => {
+    const a = makeItem();
+    const b = makeItem();
+    const repo = createMemoryItemsRepository([a, b]);
+
+    const results = await repo.updateMany("t", [
+      { id: a.id, patch: { title: "Loiça" } },
+      { id: "nope", patch: { title: "x" } },
+    ]);
+    expect(results).toEqual([{ id: a.id, error: null }, { id: "nope", error: "Item não encontrado" }]);
+    expect((await repo.get(a.id))?.title).toBe("Loiça");
+
+    expect(await repo.archiveMany("t", [a.id, b.id])).toEqual([{ id: a.id, error: null }, { id: b.id, error: null }]);
+    expect((await repo.list()).every(i => i.archived_at)).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+// Implementação em memória, para testes e desenvolvimento sem Supabase.
+// Emite os mesmos eventos que o canal realtime.
+import type { Item } from "./types";
+import { BatchResult, ItemChange, ItemsRepository, normalizeRow } from "./itemsRepository";
+import { mergedFields, relinkedFields } from "./itemRules";
+import { facetCounts, filterItems } from "./filters";
+
+type Options = {
+  sessions?: Record<string, string>;   // token -> nome, para preencher updated_by
+  people?: string[];                    // nomes conhecidos, para validar a importação
+  now?: () => string;
+};
+
+export function createMemoryItemsRepository(seed: Item[] = [], options: Options = {}): ItemsRepository {
+  let items = seed.map(normalizeRow);
+  let nextId = 1;
+  const listeners = new Set<(change: ItemChange) => void>();
+  const now = options.now || (() => new Date().toISOString());
+
+  function emit(change: ItemChange) {
+    for (const l of listeners) l(change);
+  }
+
+  function find(id: string) {
+    const item = items.find(i => i.id === id);
+    if (!item) throw new Error("Item não encontrado");
+    return item;
+  }
+
+  function save(token: string, id: string, fields: Partial<Item>) {
+    const next: Item = { ...find(id), ...fields, updated_at: now(), updated_by: options.sessions?.[token] ?? null };
+    items = items.map(i => (i.id === id ? next : i));
+    emit({ type: "UPDATE", item: next });
+  }
+
+  function remove(id: string) {
+    items = items.filter(i => i.id !== id);
+    emit({ type: "DELETE", id });
+  }
+
+  // mesma ordem que search_items: mais recentes primeiro
+  function sorted() {
+    return [...items].sort((a, b) => b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id));
+  }
+
+  function eachItem(ids: string[], action: (id: string) => void): BatchResult[] {
+    return ids.map(id => {
+      try {
+        action(id);
+        return { id, error: null };
+      } catch (err: any) {
+        return { id, error: String(err?.message || err) };
+      }
+    });
+  }
+
+  return {
+    async list() {
+      return sorted();
+    },
+
+    async search(filters, offset, limit) {
+      const list = filterItems(sorted(), filters);
+      return { items: list.slice(offset, offset + limit), total: list.length };
+    },
+
+    async facets(filters) {
+      return facetCounts(items, filters);
+    },
+
+    async get(id) {
+      return items.find(i => i.id === id) || null;
+    },
+
+    async update(token, id, patch) {
+      save(token, id, patch);
+    },
+
+    async updateMany(token, changes) {
+      const patches = new Map(changes.map(c => [c.id, c.patch]));
+      return eachItem(changes.map(c => c.id), id => save(token, id, patches.get(id)!));
+    },
+
+    async importItems(token, rows) {
+      return rows.map(row => {
+        // as mesmas validações e mensagens de import_items
+        const known = (name: string) => !options.people || options.people.includes(name);
+        if (row.owner && !known(row.owner)) return { id: null, error: `Pessoa desconhecida: ${row.owner}` };
+        const unknown = row.also_want.filter(n => !known(n));
+        if (unknown.length) return { id: null, error: `Interessado desconhecido: ${unknown.join(", ")}` };
+        const ts = now();
+        const item: Item = {
+          id: `mem-${nextId++}`,
+          ...row,
+          created_at: ts,
+          updated_at: ts,
+          updated_by: options.sessions?.[token] ?? null,
+          location: null,
+          category: null,
+          tags: [],
+          estimated_value: null,
+          archived_at: null,
+          merged_image_urls: [],
+        };
+        items = [item, ...items];
+        emit({ type: "INSERT", item });
+        return { id: item.id, error: null };
+      });
+    },
+
+    async archive(token, id) {
+      if (!find(id).archived_at) save(token, id, { archived_at: now() });
+    },
+
+    async archiveMany(token, ids) {
+      return eachItem(ids, id => {
+        if (!find(id).archived_at) save(token, id, { archived_at: now() });
+      });
+    },
+
+    async restore(token, id) {
+      save(token, id, { archived_at: null });
+    },
+
+    async remove(_token, id) {
+      find(id);
+      remove(id);
+    },
+
+    async merge(token, keepId, dropId, primaryUrl) {
+      if (keepId === dropId) throw new Error("Não é possível juntar um item consigo próprio");
+      const keep = find(keepId);
+      const drop = find(dropId);
+      if (primaryUrl !== keep.image_url && primaryUrl !== drop.image_url) {
+        throw new Error("A foto principal tem de ser de um dos itens");
+      }
+      save(token, keepId, mergedFields(keep, drop, primaryUrl));
+      remove(dropId);
+    },
+
+    async relinkImage(token, id, imageUrl) {
+      const url = imageUrl.trim();
+      if (!url) throw new Error("Link vazio");
+      const item = find(id);
+      if (url !== item.image_url) save(token, id, relinkedFields(item, url));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { HistoryEntry } from "./history";
+import { buildDigest, isContestingMine, newsStatus } from "./news";
+import { makeItem } from "./testItems";
+
+const SINCE = "2024-06-01T00:00:00.000Z";
+const BEFORE = "2024-05-01T00:00:00.000Z";
+const AFTER = "2024-06-02T00:00:00.000Z";
+
+let seq = 0;
+function entry(item_id: string, changed_by: string, old_values: HistoryEntry["old_values"], new_values: HistoryEntry["new_values"]): HistoryEntry {
+  return { id: ++seq, item_id, changed_by, changed_at: AFTER, old_values, new_values };
+}
+
+describe("newsStatus", () => {
+  it("distingue itens novos de itens alterados por outros", () => {
+    expect(newsStatus(makeItem({ created_at: AFTER, updated_at: AFTER }), SINCE, "Sofia")).toBe("new");
+    expect(newsStatus(makeItem({ created_at: BEFORE, updated_at: AFTER, updated_by: "Pai" }), SINCE, "Sofia")).toBe("changed");
+    expect(newsStatus(makeItem({ created_at: BEFORE, updated_at: AFTER, updated_by: "Sofia" }), SINCE, "Sofia")).toBe(null);
+  });
+
+  it("na primeira visita nada é assinalado", () => {
+    expect(newsStatus(makeItem({ created_at: AFTER }), null, "Sofia")).toBe(null);
+  });
+});
+
+describe("buildDigest", () => {
+  const mine = makeItem({ created_at: BEFORE, owner: "Sofia", also_want: ["Pai"] });
+  const other = makeItem({ created_at: BEFORE, owner: "Sandra" });
+  const fresh = makeItem({ created_at: AFTER });
+  const items = [mine, other, fresh];
+
+  it("agrupa por tipo e ignora as alterações da própria pessoa", () => {
+    const digest = buildDigest(items, [
+      entry(mine.id, "Pai", { also_want: [] }, { also_want: ["Pai"] }),
+      entry(other.id, "Pai", { owner: null }, { owner: "Sandra" }),
+      entry(fresh.id, "Mãe", { title: null }, { title: "Piano" }),
+      entry(other.id, "Sofia", { title: null }, { title: "Mesa" }),
+    ], "Sofia", SINCE);
+
+    expect(digest.contested.map(d => d.item.id)).toEqual([mine.id]);
+    expect(digest.reassigned.map(d => d.item.id)).toEqual([other.id]);
+    expect(digest.reassigned[0].entries).toHaveLength(1);
+    expect(digest.imported.map(d => d.item.id)).toEqual([fresh.id]);
+    expect(digest.edited).toEqual([]);
+  });
+
+  it("outras edições ficam em editados", () => {
+    const digest = buildDigest(items, [entry(other.id, "Pai", { tags: [] }, { tags: ["loiça"] })], "Sofia", SINCE);
+    expect(digest.edited.map(d => d.item.id)).toEqual([other.id]);
+  });
+});
+
+describe("isContestingMine", () => {
+  it("só conta itens meus com outros interessados", () => {
+    expect(isContestingMine({ owner: "Sofia", also_want: ["Pai"] }, "Sofia")).toBe(true);
+    expect(isContestingMine({ owner: "Sofia", also_want: [] }, "Sofia")).toBe(false);
+    expect(isContestingMine({ owner: "Pai", also_want: ["Sofia"] }, "Sofia")).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+// Novidades desde a última visita: o que mudou desde que esta pessoa marcou tudo como visto.
+// Esse momento fica guardado neste browser.
+import type { Item } from "./types";
+import type { HistoryEntry } from "./history";
+
+export type NewsStatus = "new" | "changed";
+
+export type DigestKind = "contested" | "imported" | "reassigned" | "edited";
+
+export type DigestEntry = { item: Item; entries: HistoryEntry[] };
+
+export type Digest = Record<DigestKind, DigestEntry[]>;
+
+// since null = primeira visita neste browser: nada é assinalado
+export function newsStatus(item: Item, since: string | null, me: string): NewsStatus | null {
+  if (!since) return null;
+  if (item.created_at > since) return "new";
+  if (item.updated_at > since && item.updated_by !== me) return "changed";
+  return null;
+}
+
+// o item é meu e há outras pessoas interessadas
+export function isContestingMine(item: Pick<Item, "owner" | "also_want">, me: string) {
+  return item.owner === me && item.also_want.some(n => n !== me);
+}
+
+function addedInterest(entry: HistoryEntry) {
+  if (!("also_want" in entry.new_values)) return [];
+  const before = entry.old_values.also_want || [];
+  return (entry.new_values.also_want || []).filter(n => !before.includes(n));
+}
+
+// alterações de outras pessoas desde a última visita, por tipo; cada item aparece num só grupo
+export function buildDigest(items: Item[], history: HistoryEntry[], me: string, since: string | null): Digest {
+  const digest: Digest = { contested: [], imported: [], reassigned: [], edited: [] };
+  if (!since) return digest;
+
+  const byId = new Map(items.map(i => [i.id, i]));
+  const groups = new Map<string, DigestEntry & { kind: DigestKind }>();
+
+  for (const item of items) {
+    if (item.created_at > since) groups.set(item.id, { kind: "imported", item, entries: [] });
+  }
+
+  const rank: Record<DigestKind, number> = { contested: 0, imported: 1, reassigned: 2, edited: 3 };
+  for (const entry of history) {
+    const item = byId.get(entry.item_id);
+    if (!item || entry.changed_at <= since || entry.changed_by === me) continue;
+    let kind: DigestKind = "edited";
+    if (item.owner === me && addedInterest(entry).some(n => n !== me)) kind = "contested";
+    else if ("owner" in entry.new_values) kind = "reassigned";
+
+    const group = groups.get(item.id);
+    if (!group) groups.set(item.id, { kind, item, entries: [entry] });
+    else {
+      group.entries.push(entry);
+      if (rank[kind] < rank[group.kind]) group.kind = kind;
+    }
+  }
+
+  for (const { kind, item, entries } of groups.values()) digest[kind].push({ item, entries });
+  return digest;
+}
+
+function lastSeenKey(name: string) {
+  return `gallery:last-seen:${name}`;
+}
+
+export function loadLastSeen(name: string): string | null {
+  try {
+    return localStorage.getItem(lastSeenKey(name));
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastSeen(name: string, at: string) {
+  try {
+    localStorage.setItem(lastSeenKey(name), at);
+  } catch {
+    // sem armazenamento local: as novidades contam sempre a partir da primeira visita
+  }
+}
@@ -0,0 +1,69 @@
+// Pessoas da família (tabela people), com atualização em tempo real
+import { useEffect, useState } from "react";
+import { supabase } from "./supabase";
+
+export type Person = {
+  id: string;
+  name: string;
+  active: boolean;
+  sort_order: number;
+  created_at: string;
+};
+
+function byOrder(a: Person, b: Person) {
+  return a.sort_order - b.sort_order || a.name.localeCompare(b.name, "pt");
+}
+
+export function usePeople() {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase.from("people").select("*");
+      if (!error) setPeople(((data || []) as Person[]).sort(byOrder));
+      setLoading(false);
+    })();
+
+    const channel = supabase
+      .channel("realtime:people")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "people" }, (p: any) => {
+        const row = p.new as Person;
+        setPeople(prev => [...prev.filter(x => x.id !== row.id), row].sort(byOrder));
+      })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "people" }, (p: any) => {
+        const row = p.new as Person;
+        setPeople(prev => prev.map(x => (x.id === row.id ? row : x)).sort(byOrder));
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "people" }, (p: any) => {
+        setPeople(prev => prev.filter(x => x.id !== p.old.id));
+      })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  return { people, loading };
+}
+
+// escritas só por RPC, com o token de uma sessão admin
+
+export async function addPerson(token: string, name: string, sortOrder: number) {
+  const { error } = await supabase.rpc("add_person", { p_token: token, p_name: name.trim(), p_sort_order: sortOrder });
+  if (error) throw error;
+}
+
+export async function setPersonActive(token: string, id: string, active: boolean) {
+  const { error } = await supabase.rpc("set_person_active", { p_token: token, p_id: id, p_active: active });
+  if (error) throw error;
+}
+
+export async function renamePerson(token: string, oldName: string, newName: string) {
+  const { error } = await supabase.rpc("admin_rename_person", { p_token: token, p_old: oldName, p_new: newName });
+  if (error) throw error;
+}
+
+export async function mergePeople(token: string, from: string, into: string) {
+  const { error } = await supabase.rpc("admin_merge_people", { p_token: token, p_from: from, p_into: into });
+  if (error) throw error;
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import type { Comment } from "./comments";
+import { markRead } from "./readMarks";
+
+function comment(id: number, author: string, item_id = "a"): Comment {
+  return { id, item_id, author, body: "…", created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, id)).toISOString() };
+}
+
+describe("comentários lidos", () => {
+  const thread = [comment(1, "Sandra"), comment(2, "Sofia"), comment(5, "Pai")];
+
+  it("marcar como lido guarda o último comentário do item", () => {
+    const marks = markRead({ b: 3 }, thread);
+    expect(marks).toEqual({ b: 3, a: 5 });
+    expect(markRead(marks, thread)).toBe(marks);
+  });
+});
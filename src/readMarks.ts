@@ -0,0 +1,34 @@
+// Comentários por ler: o que cada pessoa já leu fica guardado neste browser
+// (as contagens por ler fazem-se no servidor, em comment_counts, a partir destas marcas)
+import type { Comment } from "./comments";
+
+// itemId -> id do último comentário lido
+export type ReadMarks = Record<string, number>;
+
+export function markRead(marks: ReadMarks, thread: Comment[]): ReadMarks {
+  if (!thread.length) return marks;
+  const last = Math.max(...thread.map(c => c.id));
+  const itemId = thread[0].item_id;
+  return (marks[itemId] ?? 0) >= last ? marks : { ...marks, [itemId]: last };
+}
+
+function readKey(name: string) {
+  return `gallery:comments-read:${name}`;
+}
+
+export function loadReadMarks(name: string): ReadMarks {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(readKey(name)) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveReadMarks(name: string, marks: ReadMarks) {
+  try {
+    localStorage.setItem(readKey(name), JSON.stringify(marks));
+  } catch {
+    // sem armazenamento local: os comentários voltam a aparecer como por ler
+  }
+}
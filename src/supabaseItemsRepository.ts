@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BatchResult, ImportResult, ItemsRepository, normalizeRow } from "./itemsRepository";
+import type { FacetCount, Facets, ItemFilters } from "./filters";
+import type { Item } from "./types";
+
+function searchArgs(filters: ItemFilters) {
+  return {
+    p_q: filters.q.trim(),
+    p_owner: filters.ownerFilter,
+    p_only_untitled: filters.onlyUntitled,
+    p_location: filters.location,
+    p_category: filters.category,
+    p_tags: filters.tags,
+    p_news_since: filters.news?.since ?? null,
+    p_me: filters.news?.me ?? null,
+  };
+}
+
+// abaixo do max_rows do PostgREST
+const LIST_PAGE = 500;
+
+// a mesma ordem que facetCounts usa em memória
+function byValue(list: FacetCount[]) {
+  return [...list].sort((a, b) => a.value.localeCompare(b.value, "pt"));
+}
+
+export function createSupabaseItemsRepository(client: SupabaseClient): ItemsRepository {
+  return {
+    // página a página: o max_rows do PostgREST cortaria o inventário sem avisar
+    async list() {
+      const all: Item[] = [];
+      for (;;) {
+        const { data, error } = await client
+          .from("items")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .order("id")
+          .range(all.length, all.length + LIST_PAGE - 1);
+        if (error) throw error;
+        const rows = (data || []).map(normalizeRow);
+        all.push(...rows);
+        if (rows.length < LIST_PAGE) return all;
+      }
+    },
+
+    async search(filters, offset, limit) {
+      const { data, error, count } = await client
+        .rpc("search_items", searchArgs(filters), { count: "exact" })
+        .range(offset, offset + limit - 1);
+      if (error) throw error;
+      return { items: ((data || []) as any[]).map(normalizeRow), total: count ?? 0 };
+    },
+
+    async facets(filters) {
+      const { data, error } = await client.rpc("item_facets", searchArgs(filters));
+      if (error) throw error;
+      const f = data as Facets;
+      return {
+        locations: byValue(f.locations),
+        categories: byValue(f.categories),
+        tags: byValue(f.tags),
+        noLocation: f.noLocation,
+        noCategory: f.noCategory,
+      };
+    },
+
+    async get(id) {
+      const { data, error } = await client.from("items").select("*").eq("id", id).maybeSingle();
+      if (error) throw error;
+      return data ? normalizeRow(data) : null;
+    },
+
+    async update(token, id, patch) {
+      const { error } = await client.rpc("update_item", { p_token: token, p_id: id, p_patch: patch });
+      if (error) throw error;
+    },
+
+    async updateMany(token, changes) {
+      const { data, error } = await client.rpc("update_items", { p_token: token, p_changes: changes });
+      if (error) throw error;
+      return (data || []) as BatchResult[];
+    },
+
+    async importItems(token, rows) {
+      const { data, error } = await client.rpc("import_items", { p_token: token, p_rows: rows });
+      if (error) throw error;
+      return (data || []) as ImportResult[];
+    },
+
+    async archive(token, id) {
+      const { error } = await client.rpc("archive_item", { p_token: token, p_id: id });
+      if (error) throw error;
+    },
+
+    async archiveMany(token, ids) {
+      const { data, error } = await client.rpc("archive_items", { p_token: token, p_ids: ids });
+      if (error) throw error;
+      return (data || []) as BatchResult[];
+    },
+
+    async restore(token, id) {
+      const { error } = await client.rpc("restore_item", { p_token: token, p_id: id });
+      if (error) throw error;
+    },
+
+    async remove(token, id) {
+      const { error } = await client.rpc("delete_item", { p_token: token, p_id: id });
+      if (error) throw error;
+    },
+
+    async merge(token, keepId, dropId, primaryUrl) {
+      const { error } = await client.rpc("merge_items", {
+        p_token: token,
+        p_keep: keepId,
+        p_drop: dropId,
+        p_primary_url: primaryUrl,
+      });
+      if (error) throw error;
+    },
+
+    async relinkImage(token, id, imageUrl) {
+      const { error } = await client.rpc("relink_item_image", { p_token: token, p_id: id, p_image_url: imageUrl });
+      if (error) throw error;
+    },
+
+    subscribe(listener) {
+      const channel = client
+        .channel("realtime:items")
+        .on("postgres_changes", { event: "INSERT", schema: "public", table: "items" }, (p: any) => {
+          listener({ type: "INSERT", item: normalizeRow(p.new) });
+        })
+        .on("postgres_changes", { event: "UPDATE", schema: "public", table: "items" }, (p: any) => {
+          listener({ type: "UPDATE", item: normalizeRow(p.new) });
+        })
+        .on("postgres_changes", { event: "DELETE", schema: "public", table: "items" }, (p: any) => {
+          listener({ type: "DELETE", id: p.old.id });
+        })
+        .subscribe();
+      return () => { client.removeChannel(channel); };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { applyPending, baseFor, findConflicts, isNetworkError, rebaseAfter } from "./sync";
+import type { PendingWrite } from "./writeQueue";
+import { makeItem } from "./testItems";
+
+function write(overrides: Partial<PendingWrite>): PendingWrite {
+  return {
+    seq: 1,
+    itemId: "x",
+    author: "Sofia",
+    patch: {},
+    base: {},
+    createdAt: "2024-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("applyPending", () => {
+  it("aplica as escritas pendentes por ordem", () => {
+    const item = makeItem({ title: "a" });
+    const out = applyPending([item], [
+      write({ seq: 1, itemId: item.id, patch: { title: "b" } }),
+      write({ seq: 2, itemId: item.id, patch: { title: "c", owner: "Pai" } }),
+    ], "Sofia");
+    expect(out[0]).toMatchObject({ title: "c", owner: "Pai" });
+  });
+
+  it("ignora as escritas de outra identidade, que a fila não envia", () => {
+    const item = makeItem({ title: "a" });
+    const pending = [write({ itemId: item.id, author: "Pai", patch: { title: "b" } })];
+    expect(applyPending([item], pending, "Sofia")[0].title).toBe("a");
+    expect(applyPending([item], pending, null)[0].title).toBe("a");
+  });
+});
+
+describe("isNetworkError", () => {
+  it("só as falhas do fetch contam como sem rede", () => {
+    expect(isNetworkError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isNetworkError({ message: "TypeError: NetworkError when attempting to fetch resource." })).toBe(true);
+    expect(isNetworkError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(false);
+    expect(isNetworkError({ message: "Só o admin pode atribuir itens a outra pessoa", code: "42501" })).toBe(false);
+  });
+});
+
+describe("findConflicts", () => {
+  const item = makeItem({ owner: null, title: "Mesa" });
+  const w = write({ itemId: item.id, patch: { owner: "Sofia" }, base: baseFor(item, { owner: "Sofia" }) });
+
+  it("sem alterações remotas não há conflito", () => {
+    expect(findConflicts(w, item)).toEqual([]);
+  });
+
+  it("deteta outra pessoa a mudar o mesmo campo", () => {
+    const remote = { ...item, owner: "Pai", updated_by: "Pai" };
+    expect(findConflicts(w, remote)).toEqual([
+      { seq: 1, itemId: item.id, field: "owner", mine: "Sofia", theirs: "Pai", by: "Pai" },
+    ]);
+  });
+
+  it("deteta a mesma pessoa noutro aparelho", () => {
+    const title = write({ itemId: item.id, patch: { title: "Cadeira" }, base: { title: "Mesa" } });
+    expect(findConflicts(title, { ...item, title: "Sofá", updated_by: "Sofia" })).toHaveLength(1);
+  });
+
+  it("ignora outros campos e o mesmo valor", () => {
+    expect(findConflicts(w, { ...item, title: "Outra", updated_by: "Pai" })).toEqual([]);
+    expect(findConflicts(w, { ...item, owner: "Sofia", updated_by: "Pai" })).toEqual([]);
+  });
+
+  it("aceita o valor de uma escrita anterior deste aparelho", () => {
+    const first = write({ seq: 1, itemId: item.id, patch: { title: "Cadeira" }, base: { title: "Mesa" } });
+    const second = write({ seq: 2, itemId: item.id, patch: { title: "Sofá" }, base: { title: "Mesa" } });
+    const remote = { ...item, title: "Cadeira", updated_by: "Sofia" };
+    expect(findConflicts(second, remote, [first, second])).toEqual([]);
+    expect(findConflicts(second, remote)).toHaveLength(1);
+  });
+});
+
+describe("rebaseAfter", () => {
+  it("as escritas seguintes do mesmo item partem do valor enviado", () => {
+    const first = write({ seq: 1, itemId: "x", patch: { title: "Cadeira" }, base: { title: "Mesa" } });
+    const second = write({ seq: 2, itemId: "x", patch: { title: "Sofá" }, base: { title: "Mesa" } });
+    const other = write({ seq: 3, itemId: "y", patch: { title: "Sofá" }, base: { title: "Mesa" } });
+    expect(rebaseAfter([first, second, other], first)).toEqual([{ ...second, base: { title: "Cadeira" } }]);
+  });
+});
@@ -0,0 +1,237 @@
+// Edição otimista com fila local: as escritas aplicam-se logo no ecrã, guardam-se em
+// IndexedDB e são enviadas quando há ligação. Conflitos são mostrados ao utilizador.
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Item } from "./types";
+import type { ItemPatch, ItemsRepository } from "./itemsRepository";
+import type { Identity } from "./identity";
+import { PendingWrite, addPending, deletePending, listPending, putPending } from "./writeQueue";
+
+export type Conflict = {
+  seq: number;
+  itemId: string;
+  field: keyof ItemPatch;
+  mine: ItemPatch[keyof ItemPatch];
+  theirs: ItemPatch[keyof ItemPatch];
+  by: string | null;
+};
+
+const RETRY_MS = 15000;
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldsOf(patch: ItemPatch) {
+  return Object.keys(patch) as (keyof ItemPatch)[];
+}
+
+function setField<K extends keyof ItemPatch>(patch: ItemPatch, field: K, value: ItemPatch[K]) {
+  patch[field] = value;
+}
+
+// valores atuais dos campos que o patch vai alterar
+export function baseFor(item: Item, patch: ItemPatch): ItemPatch {
+  const base: ItemPatch = {};
+  for (const f of fieldsOf(patch)) setField(base, f, item[f]);
+  return base;
+}
+
+// depois de enviar uma escrita, as seguintes do mesmo item passam a partir do valor que ela deixou
+export function rebaseAfter(pending: PendingWrite[], applied: PendingWrite): PendingWrite[] {
+  return pending
+    .filter(w => w.itemId === applied.itemId && w.seq > applied.seq)
+    .filter(w => fieldsOf(w.base).some(f => f in applied.patch))
+    .map(w => {
+      const base = { ...w.base };
+      for (const f of fieldsOf(w.base)) if (f in applied.patch) setField(base, f, applied.patch[f]);
+      return { ...w, base };
+    });
+}
+
+// aplica por ordem as escritas pendentes por cima do que veio do servidor; só as de quem está
+// identificado, que são as únicas que a fila envia (as de outra identidade ficam à espera dela)
+export function applyPending(items: Item[], pending: PendingWrite[], author: string | null): Item[] {
+  const mine = pending.filter(w => w.author === author);
+  if (!mine.length) return items;
+  const byItem = new Map<string, PendingWrite[]>();
+  for (const w of mine) byItem.set(w.itemId, [...(byItem.get(w.itemId) || []), w]);
+  return items.map(item => {
+    const writes = byItem.get(item.id);
+    if (!writes) return item;
+    return writes.reduce<Item>((acc, w) => ({ ...acc, ...w.patch }), item);
+  });
+}
+
+// alguém (ou a mesma pessoa noutro aparelho) mudou no servidor um campo que esta escrita também altera.
+// Valores aceites: o de partida, o desta escrita e os das escritas anteriores deste aparelho (`earlier`),
+// que podem já ter chegado ao servidor antes de esta fila o saber.
+export function findConflicts(write: PendingWrite, remote: Item, earlier: PendingWrite[] = []): Conflict[] {
+  const mine = earlier.filter(w => w.itemId === write.itemId && w.seq < write.seq);
+  return fieldsOf(write.patch)
+    .filter(f => ![write.base, write.patch, ...mine.map(w => w.patch)].some(p => f in p && sameValue(remote[f], p[f])))
+    .map(f => ({
+      seq: write.seq,
+      itemId: write.itemId,
+      field: f,
+      mine: write.patch[f],
+      theirs: remote[f],
+      by: remote.updated_by,
+    }));
+}
+
+// só o fetch que não chegou ao servidor conta como sem rede (mensagens do Chrome, Firefox, Safari e
+// React Native); outros erros, mesmo TypeError, são definitivos e chegam à pessoa
+const FETCH_FAILED = /failed to fetch|networkerror when attempting to fetch|load failed|network request failed/i;
+
+export function isNetworkError(err: any) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return FETCH_FAILED.test(String(err?.message || err || ""));
+}
+
+type Options = {
+  repo: ItemsRepository;
+  me: Identity | null;
+  onApplied: (itemId: string, patch: ItemPatch) => void;
+  onError: (err: any) => void;   // erro definitivo (permissões, sessão…); a escrita é descartada
+};
+
+export function useSyncQueue({ repo, me, onApplied, onError }: Options) {
+  const [pending, setPending] = useState<PendingWrite[]>([]);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [online, setOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine);
+  const [flushing, setFlushing] = useState(false);
+
+  const pendingRef = useRef(pending);
+  const conflictsRef = useRef(conflicts);
+  const flushingRef = useRef(false);
+  pendingRef.current = pending;
+  conflictsRef.current = conflicts;
+
+  const addConflicts = useCallback((found: Conflict[]) => {
+    if (!found.length) return;
+    setConflicts(prev => [
+      ...prev,
+      ...found.filter(c => !prev.some(p => p.seq === c.seq && p.field === c.field)),
+    ]);
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (!me || flushingRef.current) return;
+    flushingRef.current = true;
+    setFlushing(true);
+    let current: PendingWrite | null = null;
+    const snapshot = pendingRef.current;
+    try {
+      for (const write of snapshot) {
+        current = write;
+        if (write.author !== me.name) continue;
+        if (conflictsRef.current.some(c => c.itemId === write.itemId)) continue;
+
+        const remote = await repo.get(write.itemId);
+        if (!remote) {
+          await deletePending(write.seq);
+          setPending(prev => prev.filter(w => w.seq !== write.seq));
+          continue;
+        }
+        const found = findConflicts(write, remote, pendingRef.current);
+        if (found.length) { addConflicts(found); continue; }
+
+        await repo.update(me.token, write.itemId, write.patch);
+        await deletePending(write.seq);
+        const rebased = rebaseAfter(pendingRef.current, write);
+        for (const w of rebased) await putPending(w);
+        onApplied(write.itemId, write.patch);
+        setPending(prev => prev
+          .filter(w => w.seq !== write.seq)
+          .map(w => rebased.find(r => r.seq === w.seq) ?? w));
+      }
+    } catch (err) {
+      if (isNetworkError(err)) {
+        setOnline(false);
+      } else {
+        // descarta a escrita que falhou e continua com as outras na próxima tentativa
+        const failed = current;
+        if (failed) {
+          await deletePending(failed.seq);
+          setPending(prev => prev.filter(w => w.seq !== failed.seq));
+        }
+        onError(err);
+      }
+    } finally {
+      flushingRef.current = false;
+      setFlushing(false);
+      // escritas que chegaram durante o envio
+      if (pendingRef.current.some(w => !snapshot.includes(w))) setTimeout(() => flush(), 0);
+    }
+  }, [me, repo, onApplied, onError, addConflicts]);
+
+  // carregar o que ficou pendente de uma visita anterior
+  useEffect(() => {
+    listPending().then(setPending).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    function up() { setOnline(true); }
+    function down() { setOnline(false); }
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => {
+      window.removeEventListener("online", up);
+      window.removeEventListener("offline", down);
+    };
+  }, []);
+
+  // tentar enviar sempre que há algo novo, ao voltar a ligação e periodicamente
+  useEffect(() => {
+    if (!pending.length) return;
+    flush();
+    const t = setInterval(() => {
+      if (typeof navigator === "undefined" || navigator.onLine) setOnline(true);
+      flush();
+    }, RETRY_MS);
+    return () => clearInterval(t);
+  }, [pending.length, online, conflicts.length, flush]);
+
+  async function enqueue(item: Item, patch: ItemPatch) {
+    if (!me) return;
+    const write = await addPending({
+      itemId: item.id,
+      author: me.name,
+      patch,
+      base: baseFor(item, patch),
+      createdAt: new Date().toISOString(),
+    });
+    setPending(prev => [...prev, write]);
+  }
+
+  // chamado pelo canal realtime em cada UPDATE
+  function handleRemoteUpdate(remote: Item) {
+    if (!me) return;
+    for (const w of pendingRef.current) {
+      if (w.itemId === remote.id && w.author === me.name) addConflicts(findConflicts(w, remote, pendingRef.current));
+    }
+  }
+
+  async function resolveConflict(conflict: Conflict, keepMine: boolean) {
+    const write = pendingRef.current.find(w => w.seq === conflict.seq);
+    if (write) {
+      let next: PendingWrite | null;
+      if (keepMine) {
+        // passa a contar com o valor deles como base: a minha escrita sobrepõe-se
+        next = { ...write, base: { ...write.base, [conflict.field]: conflict.theirs } };
+      } else {
+        const patch = { ...write.patch };
+        const base = { ...write.base };
+        delete patch[conflict.field];
+        delete base[conflict.field];
+        next = fieldsOf(patch).length ? { ...write, patch, base } : null;
+      }
+      if (next) await putPending(next);
+      else await deletePending(write.seq);
+      setPending(prev => (next ? prev.map(w => (w.seq === write.seq ? next! : w)) : prev.filter(w => w.seq !== write.seq)));
+    }
+    setConflicts(prev => prev.filter(c => !(c.seq === conflict.seq && c.field === conflict.field)));
+  }
+
+  return { pending, conflicts, online, flushing, enqueue, handleRemoteUpdate, resolveConflict };
+}
@@ -0,0 +1,26 @@
+// Fábrica de itens para os testes
+import type { Item } from "./types";
+
+let seq = 0;
+
+export function makeItem(overrides: Partial<Item> = {}): Item {
+  seq++;
+  const ts = new Date(Date.UTC(2024, 0, 1, 0, 0, seq)).toISOString();
+  return {
+    id: `item-${seq}`,
+    image_url: `https://example.com/${seq}.jpg`,
+    title: null,
+    owner: null,
+    also_want: [],
+    location: null,
+    category: null,
+    tags: [],
+    estimated_value: null,
+    created_at: ts,
+    updated_at: ts,
+    updated_by: null,
+    archived_at: null,
+    merged_image_urls: [],
+    ...overrides,
+  };
+}
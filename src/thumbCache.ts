@@ -0,0 +1,82 @@
+// Miniaturas guardadas no browser (IndexedDB) para a grelha abrir depressa nas visitas seguintes.
+// É só uma cache: qualquer falha (sem IndexedDB, imagem sem CORS, quota) é ignorada.
+
+const DB_NAME = "gallery-thumbs";
+const STORE = "thumbs";
+const THUMB_WIDTH = 640;
+const MAX_THUMBS = 1000;
+
+type Thumb = { url: string; blob: Blob; saved_at: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: "url" });
+        store.createIndex("saved_at", "saved_at");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function thumbCacheAvailable() {
+  return typeof indexedDB !== "undefined" && typeof createImageBitmap !== "undefined";
+}
+
+// url é o link guardado no item (não a fonte que carregou)
+export async function getThumb(url: string): Promise<Blob | null> {
+  if (!thumbCacheAvailable()) return null;
+  try {
+    const db = await openDb();
+    const row = await request<Thumb | undefined>(db.transaction(STORE).objectStore(STORE).get(url));
+    return row?.blob ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function shrink(blob: Blob) {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, THUMB_WIDTH / bitmap.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", 0.8));
+}
+
+// descarrega de novo a fonte que funcionou, reduz e guarda; as mais antigas saem quando passa do limite
+export async function storeThumb(url: string, src: string) {
+  if (!thumbCacheAvailable()) return;
+  try {
+    const res = await fetch(src, { mode: "cors", referrerPolicy: "no-referrer" });
+    if (!res.ok) return;
+    const blob = await shrink(await res.blob());
+    if (!blob) return;
+    const db = await openDb();
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    await request(store.put({ url, blob, saved_at: Date.now() } as Thumb));
+    const extra = (await request(store.count())) - MAX_THUMBS;
+    if (extra > 0) {
+      const keys = await request(store.index("saved_at").getAllKeys(null, extra));
+      for (const key of keys) store.delete(key);
+    }
+  } catch {
+    // sem CORS ou sem espaço: fica sem miniatura
+  }
+}
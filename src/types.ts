@@ -0,0 +1,16 @@
+export type Item = {
+  id: string;
+  image_url: string;
+  title: string | null;
+  owner: string | null;
+  also_want: string[];   // lista de interessados adicionais (nunca null)
+  location: string | null;   // divisão (ex.: Garagem)
+  category: string | null;   // categoria (ex.: Loiça)
+  tags: string[];
+  estimated_value: number | null;   // em euros, só o admin define
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+  archived_at: string | null;
+  merged_image_urls: string[];   // fotos de itens duplicados que foram juntos a este
+};
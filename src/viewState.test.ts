@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VIEW, itemLink, parseViewState, viewStateToSearch } from "./viewState";
+
+describe("estado da vista no URL", () => {
+  it("sem parâmetros é a vista de omissão, e vice-versa", () => {
+    expect(parseViewState("")).toEqual(DEFAULT_VIEW);
+    expect(viewStateToSearch(DEFAULT_VIEW)).toBe("");
+  });
+
+  it("ida e volta com filtros, etiquetas repetidas e item aberto", () => {
+    const view = {
+      ...DEFAULT_VIEW,
+      q: "cadeirão sala",
+      ownerFilter: "__none__",
+      onlyUntitled: true,
+      location: "Garagem",
+      tags: ["loiça", "frágil"],
+      onlyNews: true,
+      item: "abc",
+    };
+    const search = viewStateToSearch(view);
+    expect(search).toContain("etiqueta=loi%C3%A7a&etiqueta=fr%C3%A1gil");
+    expect(parseViewState(search)).toEqual(view);
+  });
+
+  it("o link de um item não leva os filtros", () => {
+    expect(itemLink("https://exemplo.pt/", "abc")).toBe("https://exemplo.pt/?item=abc");
+  });
+});
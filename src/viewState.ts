@@ -0,0 +1,99 @@
+// Estado da vista no URL (filtros e item aberto no lightbox), para partilhar links,
+// recarregar sem perder o sítio e usar o botão "voltar" do telemóvel
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type ViewState = {
+  q: string;
+  ownerFilter: string;
+  onlyUntitled: boolean;
+  location: string;
+  category: string;
+  tags: string[];
+  onlyNews: boolean;
+  item: string | null;   // id do item aberto no lightbox
+};
+
+export const DEFAULT_VIEW: ViewState = {
+  q: "",
+  ownerFilter: "todos",
+  onlyUntitled: false,
+  location: "todas",
+  category: "todas",
+  tags: [],
+  onlyNews: false,
+  item: null,
+};
+
+export function parseViewState(search: string): ViewState {
+  const p = new URLSearchParams(search);
+  return {
+    q: p.get("q") ?? DEFAULT_VIEW.q,
+    ownerFilter: p.get("dono") ?? DEFAULT_VIEW.ownerFilter,
+    onlyUntitled: p.get("sem_titulo") === "1",
+    location: p.get("divisao") ?? DEFAULT_VIEW.location,
+    category: p.get("categoria") ?? DEFAULT_VIEW.category,
+    tags: p.getAll("etiqueta"),
+    onlyNews: p.get("novidades") === "1",
+    item: p.get("item"),
+  };
+}
+
+// só entram no URL os valores diferentes dos de omissão
+export function viewStateToSearch(view: ViewState): string {
+  const p = new URLSearchParams();
+  if (view.q) p.set("q", view.q);
+  if (view.ownerFilter !== DEFAULT_VIEW.ownerFilter) p.set("dono", view.ownerFilter);
+  if (view.onlyUntitled) p.set("sem_titulo", "1");
+  if (view.location !== DEFAULT_VIEW.location) p.set("divisao", view.location);
+  if (view.category !== DEFAULT_VIEW.category) p.set("categoria", view.category);
+  for (const t of view.tags) p.append("etiqueta", t);
+  if (view.onlyNews) p.set("novidades", "1");
+  if (view.item) p.set("item", view.item);
+  const s = p.toString();
+  return s ? `?${s}` : "";
+}
+
+// link direto para um item, sem os filtros de quem o partilha
+export function itemLink(base: string, itemId: string) {
+  return base + viewStateToSearch({ ...DEFAULT_VIEW, item: itemId });
+}
+
+// "push" cria uma entrada no histórico do browser; "replace" altera a atual (ex.: ao escrever)
+type Mode = "push" | "replace";
+
+export function useViewState() {
+  const [view, setViewState] = useState<ViewState>(() => parseViewState(window.location.search));
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  useEffect(() => {
+    function onPop() { setViewState(parseViewState(window.location.search)); }
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+
+  const go = useCallback((patch: Partial<ViewState>, mode: Mode, state: unknown) => {
+    const next = { ...viewRef.current, ...patch };
+    const url = window.location.pathname + viewStateToSearch(next) + window.location.hash;
+    if (mode === "push") window.history.pushState(state, "", url);
+    else window.history.replaceState(state, "", url);
+    viewRef.current = next;
+    setViewState(next);
+  }, []);
+
+  const setView = useCallback((patch: Partial<ViewState>, mode: Mode = "push") => {
+    go(patch, mode, mode === "push" ? null : window.history.state);
+  }, [go]);
+
+  // abrir a partir da grelha cria uma entrada, para o "voltar" fechar o lightbox
+  const openItem = useCallback((id: string, mode: Mode = "push") => {
+    go({ item: id }, mode, mode === "push" ? { lightbox: true } : window.history.state);
+  }, [go]);
+
+  const closeItem = useCallback(() => {
+    if (window.history.state?.lightbox) window.history.back();
+    else go({ item: null }, "replace", null);
+  }, [go]);
+
+  return { view, setView, openItem, closeItem };
+}
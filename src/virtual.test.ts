@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { columnsFor, rowOffsets, visibleRows } from "./virtual";
+
+describe("grelha virtual", () => {
+  it("colunas seguem os breakpoints da grelha", () => {
+    expect([375, 640, 800, 1280].map(columnsFor)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("usa as alturas medidas e a estimativa para as outras linhas", () => {
+    expect(rowOffsets(3, { 1: 300 }, 500)).toEqual({ offsets: [0, 500, 800], total: 1300 });
+  });
+
+  it("escolhe as linhas que tocam a janela", () => {
+    const { offsets, total } = rowOffsets(10, {}, 100);
+    expect(visibleRows(offsets, total, 250, 480)).toEqual({ first: 2, last: 4 });
+    expect(visibleRows(offsets, total, 0, 5000)).toEqual({ first: 0, last: 9 });
+    expect(visibleRows([], 0, 0, 100)).toEqual({ first: 0, last: -1 });
+  });
+});
@@ -0,0 +1,30 @@
+// Contas da grelha virtual: só se desenham as linhas perto do ecrã
+
+// colunas iguais às classes da grelha (grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4)
+export function columnsFor(width: number) {
+  if (width >= 1280) return 4;
+  if (width >= 768) return 3;
+  if (width >= 640) return 2;
+  return 1;
+}
+
+// início de cada linha e altura total; linhas ainda não medidas usam a estimativa
+export function rowOffsets(rows: number, heights: Record<number, number>, estimate: number) {
+  const offsets: number[] = [];
+  let y = 0;
+  for (let r = 0; r < rows; r++) {
+    offsets.push(y);
+    y += heights[r] ?? estimate;
+  }
+  return { offsets, total: y };
+}
+
+// linhas [first, last] que tocam o intervalo [from, to] (em px, relativo ao topo da grelha)
+export function visibleRows(offsets: number[], total: number, from: number, to: number) {
+  if (!offsets.length) return { first: 0, last: -1 };
+  let first = 0;
+  while (first < offsets.length - 1 && offsets[first + 1] <= from) first++;
+  let last = first;
+  while (last < offsets.length - 1 && offsets[last + 1] < Math.min(to, total)) last++;
+  return { first, last };
+}
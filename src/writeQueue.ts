@@ -0,0 +1,57 @@
+// Fila de escritas pendentes guardada em IndexedDB (sobrevive a recarregar a página)
+import type { ItemPatch } from "./itemsRepository";
+
+export type PendingWrite = {
+  seq: number;
+  itemId: string;
+  author: string;
+  patch: ItemPatch;
+  base: ItemPatch;      // valores dos mesmos campos antes da edição, para detetar conflitos
+  createdAt: string;
+};
+
+const DB_NAME = "drive-claim-gallery";
+const STORE = "pending";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "seq", autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function listPending() {
+  const rows = await run<PendingWrite[]>("readonly", s => s.getAll());
+  return rows.sort((a, b) => a.seq - b.seq);
+}
+
+export async function addPending(write: Omit<PendingWrite, "seq">) {
+  const seq = await run<IDBValidKey>("readwrite", s => s.add(write));
+  return { ...write, seq: seq as number };
+}
+
+export async function putPending(write: PendingWrite) {
+  await run("readwrite", s => s.put(write));
+}
+
+export async function deletePending(seq: number) {
+  await run("readwrite", s => s.delete(seq));
+}
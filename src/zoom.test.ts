@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { NO_ZOOM, MAX_SCALE, clampPan, neighbourIndexes, swipeDirection, zoomAt } from "./zoom";
+
+describe("zoom do lightbox", () => {
+  it("amplia mantendo fixo o ponto debaixo do cursor", () => {
+    expect(zoomAt(NO_ZOOM, 2, { x: 100, y: -50 })).toEqual({ scale: 2, x: -100, y: 50 });
+    expect(zoomAt(NO_ZOOM, 100, { x: 0, y: 0 }).scale).toBe(MAX_SCALE);
+  });
+
+  it("voltar à escala 1 recentra a imagem", () => {
+    expect(zoomAt({ scale: 2, x: -100, y: 50 }, 0.25, { x: 30, y: 30 })).toEqual(NO_ZOOM);
+  });
+
+  it("não deixa arrastar a imagem para fora da área visível", () => {
+    const view = { width: 400, height: 300 };
+    const image = { width: 400, height: 200 };
+    expect(clampPan({ scale: 2, x: 500, y: -500 }, view, image)).toEqual({ scale: 2, x: 200, y: -50 });
+    expect(clampPan({ scale: 1, x: 10, y: 10 }, view, image)).toEqual({ scale: 1, x: 0, y: 0 });
+  });
+});
+
+describe("gestos", () => {
+  it("swipe horizontal muda de item; curto ou vertical não", () => {
+    expect(swipeDirection(-80, 10)).toBe(1);
+    expect(swipeDirection(80, -10)).toBe(-1);
+    expect(swipeDirection(-30, 0)).toBe(0);
+    expect(swipeDirection(-80, 70)).toBe(0);
+  });
+
+  it("vizinhos a pré-carregar dão a volta à lista", () => {
+    expect(neighbourIndexes(0, 5)).toEqual([1, 4]);
+    expect(neighbourIndexes(1, 2)).toEqual([0]);
+    expect(neighbourIndexes(0, 1)).toEqual([]);
+    expect(neighbourIndexes(-1, 5)).toEqual([]);
+  });
+});
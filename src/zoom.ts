@@ -0,0 +1,56 @@
+// Zoom e deslocação da imagem no lightbox (roda do rato, pinça e arrastar), e gestos de swipe.
+// Coordenadas relativas ao centro da área visível; a imagem é transformada a partir do centro.
+
+export type Zoom = { scale: number; x: number; y: number };
+export type Size = { width: number; height: number };
+export type Point = { x: number; y: number };
+
+export const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+export const MAX_SCALE = 5;
+
+// zoom mantendo fixo o ponto debaixo do cursor (ou do centro da pinça)
+export function zoomAt(zoom: Zoom, factor: number, at: Point): Zoom {
+  const scale = Math.min(MAX_SCALE, Math.max(1, zoom.scale * factor));
+  if (scale === 1) return NO_ZOOM;
+  const k = scale / zoom.scale;
+  return { scale, x: at.x - (at.x - zoom.x) * k, y: at.y - (at.y - zoom.y) * k };
+}
+
+// a imagem ampliada não pode deixar espaço vazio de um lado enquanto sobra do outro
+export function clampPan(zoom: Zoom, view: Size, image: Size): Zoom {
+  const maxX = Math.max(0, (image.width * zoom.scale - view.width) / 2);
+  const maxY = Math.max(0, (image.height * zoom.scale - view.height) / 2);
+  return {
+    scale: zoom.scale,
+    x: Math.min(maxX, Math.max(-maxX, zoom.x)),
+    y: Math.min(maxY, Math.max(-maxY, zoom.y)),
+  };
+}
+
+export function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+const SWIPE_MIN_PX = 50;
+
+// 1 = seguinte (dedo para a esquerda), -1 = anterior, 0 = não foi swipe (curto ou mais vertical)
+export function swipeDirection(dx: number, dy: number): -1 | 0 | 1 {
+  if (Math.abs(dx) < SWIPE_MIN_PX || Math.abs(dx) < Math.abs(dy) * 1.5) return 0;
+  return dx < 0 ? 1 : -1;
+}
+
+// índices vizinhos a pré-carregar (a lista dá a volta, como as setas)
+export function neighbourIndexes(index: number, length: number, radius = 1): number[] {
+  if (index < 0 || length < 2) return [];
+  const out: number[] = [];
+  for (let d = 1; d <= radius; d++) {
+    for (const i of [(index + d) % length, (index - d + length) % length]) {
+      if (i !== index && !out.includes(i)) out.push(i);
+    }
+  }
+  return out;
+}
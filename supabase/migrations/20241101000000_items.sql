@@ -0,0 +1,27 @@
+-- Tabela base da galeria
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.items (
+  id uuid primary key default gen_random_uuid(),
+  image_url text not null,
+  title text,
+  owner text,
+  also_want text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.touch_updated_at() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists items_touch_updated_at on public.items;
+create trigger items_touch_updated_at
+  before update on public.items
+  for each row execute function public.touch_updated_at();
+
+alter publication supabase_realtime add table public.items;
@@ -0,0 +1,24 @@
+-- Identidade por pessoa: código de acesso e autor de cada alteração
+alter table public.items add column if not exists updated_by text;
+
+create table if not exists public.member_codes (
+  name text primary key,
+  code_hash text not null
+);
+
+-- sem políticas: os códigos só são lidos através de verify_member_code
+alter table public.member_codes enable row level security;
+
+create or replace function public.verify_member_code(p_name text, p_code text) returns boolean
+language sql stable security definer set search_path = public, extensions as $$
+  select exists (
+    select 1 from member_codes
+    where name = p_name and code_hash = crypt(p_code, code_hash)
+  );
+$$;
+
+grant execute on function public.verify_member_code(text, text) to anon, authenticated;
+
+-- Para definir/alterar um código (no SQL editor):
+--   insert into member_codes (name, code_hash) values ('Sandra', crypt('1234', gen_salt('bf')))
+--   on conflict (name) do update set code_hash = excluded.code_hash;
@@ -0,0 +1,47 @@
+-- Histórico de alterações a title, owner e also_want
+create table if not exists public.item_history (
+  id bigint generated always as identity primary key,
+  item_id uuid not null references public.items(id) on delete cascade,
+  changed_by text,
+  changed_at timestamptz not null default now(),
+  old_values jsonb not null,
+  new_values jsonb not null
+);
+
+create index if not exists item_history_item_idx on public.item_history (item_id, changed_at desc);
+create index if not exists item_history_recent_idx on public.item_history (changed_at desc);
+
+-- só guarda os campos que mudaram
+create or replace function public.log_item_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  o jsonb := '{}'::jsonb;
+  n jsonb := '{}'::jsonb;
+begin
+  if new.title is distinct from old.title then
+    o := o || jsonb_build_object('title', old.title);
+    n := n || jsonb_build_object('title', new.title);
+  end if;
+  if new.owner is distinct from old.owner then
+    o := o || jsonb_build_object('owner', old.owner);
+    n := n || jsonb_build_object('owner', new.owner);
+  end if;
+  if new.also_want is distinct from old.also_want then
+    o := o || jsonb_build_object('also_want', to_jsonb(old.also_want));
+    n := n || jsonb_build_object('also_want', to_jsonb(new.also_want));
+  end if;
+
+  if o <> '{}'::jsonb then
+    insert into item_history (item_id, changed_by, old_values, new_values)
+    values (new.id, new.updated_by, o, n);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists items_log_change on public.items;
+create trigger items_log_change
+  after update on public.items
+  for each row execute function public.log_item_change();
+
+alter publication supabase_realtime add table public.item_history;
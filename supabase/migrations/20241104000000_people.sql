@@ -0,0 +1,81 @@
+-- Pessoas da família geridas em dados (substitui a constante OWNERS)
+create table if not exists public.people (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+insert into public.people (name, sort_order) values
+  ('Mãe', 1), ('Pai', 2), ('Sandra', 3), ('Sofia', 4),
+  ('Diogo & Susana', 5), ('Daniel', 6), ('Eduardo', 7)
+on conflict (name) do nothing;
+
+-- leitura pública; escrever na tabela fica reservado às funções do servidor
+alter table public.people enable row level security;
+drop policy if exists people_read on public.people;
+create policy people_read on public.people for select to anon, authenticated using (true);
+revoke insert, update, delete on public.people from anon, authenticated;
+
+-- os códigos acompanham as mudanças de nome
+insert into public.people (name)
+select name from public.member_codes
+on conflict (name) do nothing;
+
+alter table public.member_codes
+  add constraint member_codes_person_fk foreign key (name)
+  references public.people(name) on update cascade on delete cascade;
+
+-- Mudar o nome de uma pessoa e propagar a owner/also_want
+create or replace function public.rename_person(p_old text, p_new text, p_actor text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if coalesce(trim(p_new), '') = '' then
+    raise exception 'Nome vazio';
+  end if;
+  update people set name = trim(p_new) where name = p_old;
+  if not found then
+    raise exception 'Pessoa desconhecida: %', p_old;
+  end if;
+  update items set owner = trim(p_new), updated_by = p_actor where owner = p_old;
+  update items set also_want = array_replace(also_want, p_old, trim(p_new)), updated_by = p_actor
+  where p_old = any(also_want);
+end;
+$$;
+
+-- Juntar duas pessoas: tudo o que era de p_from passa para p_into e p_from é removida
+create or replace function public.merge_people(p_from text, p_into text, p_actor text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_from = p_into then
+    raise exception 'Não é possível juntar uma pessoa consigo própria';
+  end if;
+  if not exists (select 1 from people where name = p_into) then
+    raise exception 'Pessoa desconhecida: %', p_into;
+  end if;
+
+  update items set owner = p_into, updated_by = p_actor where owner = p_from;
+  update items
+  set also_want = array(
+        select n from (
+          select n, min(pos) as first_pos
+          from unnest(array_replace(also_want, p_from, p_into)) with ordinality as t(n, pos)
+          where n is distinct from owner
+          group by n
+        ) s
+        order by first_pos
+      ),
+      updated_by = p_actor
+  where p_from = any(also_want) or (owner = p_into and p_into = any(also_want));
+
+  delete from people where name = p_from;
+end;
+$$;
+
+-- sem verificação de sessão e com o autor indicado por quem chama: só para uso interno
+-- (as versões para o admin, com sessão, chamam estas)
+revoke execute on function public.rename_person(text, text, text) from public, anon, authenticated;
+revoke execute on function public.merge_people(text, text, text) from public, anon, authenticated;
+
+alter publication supabase_realtime add table public.people;
@@ -0,0 +1,245 @@
+-- Sessões no servidor, PIN de admin fora do cliente e RLS em todas as tabelas.
+-- O anon só lê; todas as escritas passam por funções security definer que validam a sessão.
+
+create table if not exists public.admin_config (
+  id boolean primary key default true check (id),
+  pin_hash text not null
+);
+
+create table if not exists public.sessions (
+  token uuid primary key default gen_random_uuid(),
+  name text not null references public.people(name) on update cascade on delete cascade,
+  is_admin boolean not null default false,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '12 hours'
+);
+
+alter table public.admin_config enable row level security;
+alter table public.sessions enable row level security;
+
+/* ---------- Leitura pública, escrita só por RPC ---------- */
+
+alter table public.items enable row level security;
+alter table public.item_history enable row level security;
+alter table public.people enable row level security;
+
+drop policy if exists items_read on public.items;
+create policy items_read on public.items for select to anon, authenticated using (true);
+
+drop policy if exists item_history_read on public.item_history;
+create policy item_history_read on public.item_history for select to anon, authenticated using (true);
+
+drop policy if exists people_read on public.people;
+create policy people_read on public.people for select to anon, authenticated using (true);
+
+revoke insert, update, delete on public.items, public.item_history, public.people from anon, authenticated;
+
+/* ---------- Sessões ---------- */
+
+create or replace function public.require_session(p_token uuid) returns public.sessions
+language plpgsql stable security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  select * into s from sessions where token = p_token and expires_at > now();
+  if not found then
+    raise exception 'Sessão inválida ou expirada' using errcode = '28000';
+  end if;
+  return s;
+end;
+$$;
+
+create or replace function public.require_admin(p_token uuid) returns public.sessions
+language plpgsql stable security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  s := require_session(p_token);
+  if not s.is_admin then
+    raise exception 'Só o admin pode fazer isto' using errcode = '42501';
+  end if;
+  return s;
+end;
+$$;
+
+drop function if exists public.verify_member_code(text, text);
+
+create or replace function public.member_login(p_name text, p_code text) returns uuid
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  t uuid;
+begin
+  if not exists (
+    select 1 from member_codes m join people p on p.name = m.name
+    where m.name = p_name and p.active and m.code_hash = crypt(p_code, m.code_hash)
+  ) then
+    return null;
+  end if;
+  delete from sessions where expires_at <= now();
+  insert into sessions (name) values (p_name) returning token into t;
+  return t;
+end;
+$$;
+
+-- o cliente só mostra a UI de admin depois de confirmar aqui
+create or replace function public.session_info(p_token uuid) returns table (name text, is_admin boolean)
+language sql stable security definer set search_path = public as $$
+  select s.name, s.is_admin from sessions s where s.token = p_token and s.expires_at > now();
+$$;
+
+create or replace function public.admin_elevate(p_token uuid, p_pin text) returns boolean
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  s sessions;
+begin
+  s := require_session(p_token);
+  if not exists (select 1 from admin_config where pin_hash = crypt(p_pin, pin_hash)) then
+    return false;
+  end if;
+  update sessions set is_admin = true where token = s.token;
+  return true;
+end;
+$$;
+
+create or replace function public.admin_drop(p_token uuid) returns void
+language sql security definer set search_path = public as $$
+  update sessions set is_admin = false where token = p_token;
+$$;
+
+create or replace function public.logout(p_token uuid) returns void
+language sql security definer set search_path = public as $$
+  delete from sessions where token = p_token;
+$$;
+
+/* ---------- Itens ---------- */
+
+create or replace function public.update_item(p_token uuid, p_id uuid, p_patch jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  cur items;
+  next_title text;
+  next_owner text;
+  next_also text[];
+  touched text[];
+begin
+  s := require_session(p_token);
+  select * into cur from items where id = p_id for update;
+  if not found then
+    raise exception 'Item não encontrado';
+  end if;
+
+  next_title := case when p_patch ? 'title' then p_patch->>'title' else cur.title end;
+  next_owner := case when p_patch ? 'owner' then p_patch->>'owner' else cur.owner end;
+  next_also := case
+    when p_patch ? 'also_want' then array(select jsonb_array_elements_text(p_patch->'also_want'))
+    else cur.also_want
+  end;
+
+  if next_owner is not null and not exists (select 1 from people where name = next_owner) then
+    raise exception 'Pessoa desconhecida: %', next_owner;
+  end if;
+  if exists (select 1 from unnest(next_also) n where n not in (select name from people)) then
+    raise exception 'Interessado desconhecido';
+  end if;
+
+  if not s.is_admin then
+    -- sem admin: só ficar com um item livre ou largar um item próprio
+    if next_owner is distinct from cur.owner
+      and ((cur.owner is not null and cur.owner <> s.name) or (next_owner is not null and next_owner <> s.name)) then
+      raise exception 'Só o admin pode atribuir itens a outra pessoa' using errcode = '42501';
+    end if;
+    -- sem admin: só se adiciona/remove a si próprio dos interessados
+    select coalesce(array_agg(n), '{}') into touched from (
+      (select unnest(next_also) except select unnest(cur.also_want))
+      union
+      (select unnest(cur.also_want) except select unnest(next_also))
+    ) t(n);
+    if not touched <@ array[s.name] then
+      raise exception 'Só podes alterar o teu próprio interesse' using errcode = '42501';
+    end if;
+  end if;
+
+  update items
+  set title = next_title, owner = next_owner, also_want = next_also, updated_by = s.name
+  where id = p_id;
+end;
+$$;
+
+-- p_rows: [{ image_url, title, owner, also_want }]
+create or replace function public.import_items(p_token uuid, p_rows jsonb) returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  n integer;
+begin
+  s := require_admin(p_token);
+  insert into items (image_url, title, owner, also_want, updated_by)
+  select r.image_url, r.title, r.owner, coalesce(r.also_want, '{}'), s.name
+  from jsonb_to_recordset(p_rows) as r(image_url text, title text, owner text, also_want text[])
+  where r.image_url like 'http%';
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+/* ---------- Pessoas (só admin) ---------- */
+
+create or replace function public.add_person(p_token uuid, p_name text, p_sort_order integer) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into people (name, sort_order) values (trim(p_name), p_sort_order);
+end;
+$$;
+
+create or replace function public.set_person_active(p_token uuid, p_id uuid, p_active boolean) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  update people set active = p_active where id = p_id;
+end;
+$$;
+
+-- as versões sem sessão ficam só para uso interno
+revoke execute on function public.rename_person(text, text, text) from anon, authenticated, public;
+revoke execute on function public.merge_people(text, text, text) from anon, authenticated, public;
+
+create or replace function public.admin_rename_person(p_token uuid, p_old text, p_new text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  s := require_admin(p_token);
+  perform rename_person(p_old, p_new, s.name);
+end;
+$$;
+
+create or replace function public.admin_merge_people(p_token uuid, p_from text, p_into text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  s := require_admin(p_token);
+  perform merge_people(p_from, p_into, s.name);
+end;
+$$;
+
+/* ---------- Permissões ---------- */
+
+revoke execute on function public.require_session(uuid) from anon, authenticated, public;
+revoke execute on function public.require_admin(uuid) from anon, authenticated, public;
+
+grant execute on function
+  public.member_login(text, text),
+  public.session_info(uuid),
+  public.admin_elevate(uuid, text),
+  public.admin_drop(uuid),
+  public.logout(uuid),
+  public.update_item(uuid, uuid, jsonb),
+  public.import_items(uuid, jsonb),
+  public.add_person(uuid, text, integer),
+  public.set_person_active(uuid, uuid, boolean),
+  public.admin_rename_person(uuid, text, text),
+  public.admin_merge_people(uuid, text, text)
+to anon, authenticated;
@@ -0,0 +1,89 @@
+-- Arquivar, apagar e juntar itens duplicados (só admin)
+alter table public.items add column if not exists archived_at timestamptz;
+alter table public.items add column if not exists merged_image_urls text[] not null default '{}';
+
+create or replace function public.archive_item(p_token uuid, p_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  s := require_admin(p_token);
+  update items set archived_at = now(), updated_by = s.name where id = p_id and archived_at is null;
+end;
+$$;
+
+create or replace function public.restore_item(p_token uuid, p_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  s := require_admin(p_token);
+  update items set archived_at = null, updated_by = s.name where id = p_id;
+end;
+$$;
+
+create or replace function public.delete_item(p_token uuid, p_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  delete from items where id = p_id;
+end;
+$$;
+
+-- p_keep fica com os dados de ambos; p_drop é apagado. p_primary_url escolhe a foto principal.
+create or replace function public.merge_items(p_token uuid, p_keep uuid, p_drop uuid, p_primary_url text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  k items;
+  d items;
+  new_owner text;
+  secondary text;
+begin
+  s := require_admin(p_token);
+  if p_keep = p_drop then
+    raise exception 'Não é possível juntar um item consigo próprio';
+  end if;
+  select * into k from items where id = p_keep for update;
+  select * into d from items where id = p_drop for update;
+  if k.id is null or d.id is null then
+    raise exception 'Item não encontrado';
+  end if;
+  if p_primary_url not in (k.image_url, d.image_url) then
+    raise exception 'A foto principal tem de ser de um dos itens';
+  end if;
+
+  new_owner := coalesce(k.owner, d.owner);
+  secondary := case when p_primary_url = k.image_url then d.image_url else k.image_url end;
+
+  update items
+  set image_url = p_primary_url,
+      merged_image_urls = array_remove(k.merged_image_urls || d.merged_image_urls || secondary, p_primary_url),
+      title = coalesce(k.title, d.title),
+      owner = new_owner,
+      -- os dois interessados, mais o dono do item apagado se for outra pessoa
+      also_want = array(
+        select n from (
+          select n, min(pos) as first_pos
+          from unnest(k.also_want || d.also_want || array_remove(array[d.owner], null))
+            with ordinality as t(n, pos)
+          where n is distinct from new_owner
+          group by n
+        ) x
+        order by first_pos
+      ),
+      archived_at = case when k.archived_at is not null and d.archived_at is not null then k.archived_at end,
+      updated_by = s.name
+  where id = p_keep;
+
+  update item_history set item_id = p_keep where item_id = p_drop;
+  delete from items where id = p_drop;
+end;
+$$;
+
+grant execute on function
+  public.archive_item(uuid, uuid),
+  public.restore_item(uuid, uuid),
+  public.delete_item(uuid, uuid),
+  public.merge_items(uuid, uuid, uuid, text)
+to anon, authenticated;
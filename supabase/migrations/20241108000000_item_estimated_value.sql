@@ -0,0 +1,131 @@
+-- Valor estimado (opcional) por item, para equilibrar a partilha
+alter table public.items add column if not exists estimated_value numeric(12, 2)
+  check (estimated_value is null or estimated_value >= 0);
+
+-- update_item: o valor estimado só é alterado pelo admin
+create or replace function public.update_item(p_token uuid, p_id uuid, p_patch jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  cur items;
+  next_title text;
+  next_owner text;
+  next_also text[];
+  next_location text;
+  next_category text;
+  next_tags text[];
+  next_value numeric;
+  touched text[];
+begin
+  s := require_session(p_token);
+  select * into cur from items where id = p_id for update;
+  if not found then
+    raise exception 'Item não encontrado';
+  end if;
+
+  next_title := case when p_patch ? 'title' then p_patch->>'title' else cur.title end;
+  next_owner := case when p_patch ? 'owner' then p_patch->>'owner' else cur.owner end;
+  next_also := case
+    when p_patch ? 'also_want' then array(select jsonb_array_elements_text(p_patch->'also_want'))
+    else cur.also_want
+  end;
+  next_location := case when p_patch ? 'location' then nullif(trim(p_patch->>'location'), '') else cur.location end;
+  next_category := case when p_patch ? 'category' then nullif(trim(p_patch->>'category'), '') else cur.category end;
+  next_tags := case
+    -- sem repetidas, pela ordem em que cada etiqueta aparece primeiro
+    when p_patch ? 'tags' then array(
+      select t from (
+        select trim(x) as t, min(pos) as first_pos
+        from jsonb_array_elements_text(p_patch->'tags') with ordinality as e(x, pos)
+        where trim(x) <> ''
+        group by trim(x)
+      ) y
+      order by first_pos
+    )
+    else cur.tags
+  end;
+  next_value := case
+    when p_patch ? 'estimated_value' then (p_patch->>'estimated_value')::numeric
+    else cur.estimated_value
+  end;
+
+  if next_owner is not null and not exists (select 1 from people where name = next_owner) then
+    raise exception 'Pessoa desconhecida: %', next_owner;
+  end if;
+  if exists (select 1 from unnest(next_also) n where n not in (select name from people)) then
+    raise exception 'Interessado desconhecido';
+  end if;
+
+  if not s.is_admin then
+    -- sem admin: o valor estimado não se altera
+    if next_value is distinct from cur.estimated_value then
+      raise exception 'Só o admin pode alterar o valor estimado' using errcode = '42501';
+    end if;
+    -- sem admin: só ficar com um item livre ou largar um item próprio
+    if next_owner is distinct from cur.owner
+      and ((cur.owner is not null and cur.owner <> s.name) or (next_owner is not null and next_owner <> s.name)) then
+      raise exception 'Só o admin pode atribuir itens a outra pessoa' using errcode = '42501';
+    end if;
+    -- sem admin: só se adiciona/remove a si próprio dos interessados
+    select coalesce(array_agg(n), '{}') into touched from (
+      (select unnest(next_also) except select unnest(cur.also_want))
+      union
+      (select unnest(cur.also_want) except select unnest(next_also))
+    ) t(n);
+    if not touched <@ array[s.name] then
+      raise exception 'Só podes alterar o teu próprio interesse' using errcode = '42501';
+    end if;
+  end if;
+
+  update items
+  set title = next_title, owner = next_owner, also_want = next_also,
+      location = next_location, category = next_category, tags = next_tags,
+      estimated_value = next_value,
+      updated_by = s.name
+  where id = p_id;
+end;
+$$;
+
+-- o histórico passa a incluir o valor estimado
+create or replace function public.log_item_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  o jsonb := '{}'::jsonb;
+  n jsonb := '{}'::jsonb;
+begin
+  if new.title is distinct from old.title then
+    o := o || jsonb_build_object('title', old.title);
+    n := n || jsonb_build_object('title', new.title);
+  end if;
+  if new.owner is distinct from old.owner then
+    o := o || jsonb_build_object('owner', old.owner);
+    n := n || jsonb_build_object('owner', new.owner);
+  end if;
+  if new.also_want is distinct from old.also_want then
+    o := o || jsonb_build_object('also_want', to_jsonb(old.also_want));
+    n := n || jsonb_build_object('also_want', to_jsonb(new.also_want));
+  end if;
+  if new.location is distinct from old.location then
+    o := o || jsonb_build_object('location', old.location);
+    n := n || jsonb_build_object('location', new.location);
+  end if;
+  if new.category is distinct from old.category then
+    o := o || jsonb_build_object('category', old.category);
+    n := n || jsonb_build_object('category', new.category);
+  end if;
+  if new.tags is distinct from old.tags then
+    o := o || jsonb_build_object('tags', to_jsonb(old.tags));
+    n := n || jsonb_build_object('tags', to_jsonb(new.tags));
+  end if;
+  if new.estimated_value is distinct from old.estimated_value then
+    o := o || jsonb_build_object('estimated_value', old.estimated_value);
+    n := n || jsonb_build_object('estimated_value', new.estimated_value);
+  end if;
+
+  if o <> '{}'::jsonb then
+    insert into item_history (item_id, changed_by, old_values, new_values)
+    values (new.id, new.updated_by, o, n);
+  end if;
+  return new;
+end;
+$$;
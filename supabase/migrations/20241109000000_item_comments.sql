@@ -0,0 +1,87 @@
+-- Comentários por item, com autor e data
+create table if not exists public.item_comments (
+  id bigint generated always as identity primary key,
+  item_id uuid not null references public.items(id) on delete cascade,
+  author text not null,
+  body text not null check (length(trim(body)) between 1 and 2000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists item_comments_item_idx on public.item_comments (item_id, created_at);
+
+alter table public.item_comments enable row level security;
+create policy item_comments_read on public.item_comments for select to anon, authenticated using (true);
+
+alter publication supabase_realtime add table public.item_comments;
+
+-- qualquer pessoa com sessão comenta, sempre em nome próprio
+create or replace function public.add_comment(p_token uuid, p_item_id uuid, p_body text) returns item_comments
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  c item_comments;
+begin
+  s := require_session(p_token);
+  if not exists (select 1 from items where id = p_item_id) then
+    raise exception 'Item não encontrado';
+  end if;
+  insert into item_comments (item_id, author, body)
+  values (p_item_id, s.name, trim(p_body))
+  returning * into c;
+  return c;
+end;
+$$;
+
+-- ao juntar itens, os comentários do item apagado passam para o que fica
+create or replace function public.merge_items(p_token uuid, p_keep uuid, p_drop uuid, p_primary_url text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  k items;
+  d items;
+  new_owner text;
+  secondary text;
+begin
+  s := require_admin(p_token);
+  if p_keep = p_drop then
+    raise exception 'Não é possível juntar um item consigo próprio';
+  end if;
+  select * into k from items where id = p_keep for update;
+  select * into d from items where id = p_drop for update;
+  if k.id is null or d.id is null then
+    raise exception 'Item não encontrado';
+  end if;
+  if p_primary_url not in (k.image_url, d.image_url) then
+    raise exception 'A foto principal tem de ser de um dos itens';
+  end if;
+
+  new_owner := coalesce(k.owner, d.owner);
+  secondary := case when p_primary_url = k.image_url then d.image_url else k.image_url end;
+
+  update items
+  set image_url = p_primary_url,
+      merged_image_urls = array_remove(k.merged_image_urls || d.merged_image_urls || secondary, p_primary_url),
+      title = coalesce(k.title, d.title),
+      owner = new_owner,
+      -- os dois interessados, mais o dono do item apagado se for outra pessoa
+      also_want = array(
+        select n from (
+          select n, min(pos) as first_pos
+          from unnest(k.also_want || d.also_want || array_remove(array[d.owner], null))
+            with ordinality as t(n, pos)
+          where n is distinct from new_owner
+          group by n
+        ) x
+        order by first_pos
+      ),
+      archived_at = case when k.archived_at is not null and d.archived_at is not null then k.archived_at end,
+      updated_by = s.name
+  where id = p_keep;
+
+  update item_history set item_id = p_keep where item_id = p_drop;
+  update item_comments set item_id = p_keep where item_id = p_drop;
+  delete from items where id = p_drop;
+end;
+$$;
+
+grant execute on function public.add_comment(uuid, uuid, text) to anon, authenticated;
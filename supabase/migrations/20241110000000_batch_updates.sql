@@ -0,0 +1,43 @@
+-- Edição em lote: várias alterações numa só chamada, com o resultado de cada item.
+-- Cada item corre num bloco próprio: um erro num item não desfaz os outros.
+create or replace function public.update_items(p_token uuid, p_changes jsonb)
+returns table (id uuid, error text)
+language plpgsql security definer set search_path = public as $$
+declare
+  c jsonb;
+begin
+  perform require_session(p_token);
+  for c in select * from jsonb_array_elements(p_changes) loop
+    id := (c->>'id')::uuid;
+    begin
+      perform update_item(p_token, id, c->'patch');
+      error := null;
+    exception when others then
+      error := sqlerrm;
+    end;
+    return next;
+  end loop;
+end;
+$$;
+
+create or replace function public.archive_items(p_token uuid, p_ids uuid[])
+returns table (id uuid, error text)
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  foreach id in array p_ids loop
+    begin
+      perform archive_item(p_token, id);
+      error := null;
+    exception when others then
+      error := sqlerrm;
+    end;
+    return next;
+  end loop;
+end;
+$$;
+
+grant execute on function
+  public.update_items(uuid, jsonb),
+  public.archive_items(uuid, uuid[])
+to anon, authenticated;
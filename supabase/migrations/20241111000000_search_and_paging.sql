@@ -0,0 +1,107 @@
+-- Pesquisa, filtros e paginação no servidor.
+-- A pesquisa ignora acentos e maiúsculas e exige todas as palavras ("cadeirao sala").
+create extension if not exists unaccent with schema extensions;
+create extension if not exists pg_trgm with schema extensions;
+
+-- unaccent não é immutable; este invólucro fixa o dicionário para se poder indexar
+create or replace function public.search_normalize(t text) returns text
+language sql immutable parallel safe set search_path = public, extensions as $$
+  select lower(extensions.unaccent('extensions.unaccent'::regdictionary, coalesce(t, '')));
+$$;
+
+create index if not exists items_title_search_idx
+  on public.items using gin (public.search_normalize(title) extensions.gin_trgm_ops);
+create index if not exists items_created_idx on public.items (created_at desc, id);
+
+-- espelha filterItems (src/filters.ts); "__archived__" é o único filtro que mostra arquivados
+create or replace function public.item_matches(
+  i items,
+  p_q text,
+  p_owner text,
+  p_only_untitled boolean,
+  p_location text,
+  p_category text,
+  p_tags text[],
+  p_news_since timestamptz,
+  p_me text
+) returns boolean
+language sql stable set search_path = public as $$
+  select
+    (case when p_owner = '__archived__' then i.archived_at is not null else i.archived_at is null end)
+    and (p_owner in ('todos', '__archived__') or (p_owner = '__none__' and i.owner is null) or i.owner = p_owner)
+    and (not p_only_untitled or coalesce(trim(i.title), '') = '')
+    and (p_location = 'todas' or (p_location = '__none__' and i.location is null) or i.location = p_location)
+    and (p_category = 'todas' or (p_category = '__none__' and i.category is null) or i.category = p_category)
+    and i.tags @> coalesce(p_tags, '{}')
+    and (p_news_since is null
+      or i.created_at > p_news_since
+      or (i.updated_at > p_news_since and i.updated_by is distinct from p_me))
+    and not exists (
+      select 1 from regexp_split_to_table(search_normalize(trim(p_q)), '\s+') w
+      where w <> '' and strpos(search_normalize(i.title), w) = 0
+    );
+$$;
+
+-- a paginação faz-se com range() no cliente (offset/limit) sobre esta ordem fixa
+create or replace function public.search_items(
+  p_q text default '',
+  p_owner text default 'todos',
+  p_only_untitled boolean default false,
+  p_location text default 'todas',
+  p_category text default 'todas',
+  p_tags text[] default '{}',
+  p_news_since timestamptz default null,
+  p_me text default null
+) returns setof items
+language sql stable set search_path = public as $$
+  select * from items i
+  where item_matches(i, p_q, p_owner, p_only_untitled, p_location, p_category, p_tags, p_news_since, p_me)
+  order by i.created_at desc, i.id;
+$$;
+
+-- contagens de cada faceta com todos os outros filtros aplicados (espelha facetCounts)
+create or replace function public.item_facets(
+  p_q text default '',
+  p_owner text default 'todos',
+  p_only_untitled boolean default false,
+  p_location text default 'todas',
+  p_category text default 'todas',
+  p_tags text[] default '{}',
+  p_news_since timestamptz default null,
+  p_me text default null
+) returns jsonb
+language sql stable set search_path = public as $$
+  with by_location as (
+    select i.location from items i
+    where item_matches(i, p_q, p_owner, p_only_untitled, 'todas', p_category, p_tags, p_news_since, p_me)
+  ), by_category as (
+    select i.category from items i
+    where item_matches(i, p_q, p_owner, p_only_untitled, p_location, 'todas', p_tags, p_news_since, p_me)
+  ), by_tags as (
+    select t from items i, unnest(i.tags) t
+    where item_matches(i, p_q, p_owner, p_only_untitled, p_location, p_category, '{}', p_news_since, p_me)
+  )
+  select jsonb_build_object(
+    'locations', coalesce((
+      select jsonb_agg(jsonb_build_object('value', location, 'count', n))
+      from (select location, count(*) n from by_location where location is not null group by location) x
+    ), '[]'::jsonb),
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object('value', category, 'count', n))
+      from (select category, count(*) n from by_category where category is not null group by category) x
+    ), '[]'::jsonb),
+    'tags', coalesce((
+      select jsonb_agg(jsonb_build_object('value', t, 'count', n))
+      from (select t, count(*) n from by_tags group by t) x
+    ), '[]'::jsonb),
+    'noLocation', (select count(*) from by_location where location is null),
+    'noCategory', (select count(*) from by_category where category is null)
+  );
+$$;
+
+grant execute on function
+  public.search_normalize(text),
+  public.item_matches(items, text, text, boolean, text, text, text[], timestamptz, text),
+  public.search_items(text, text, boolean, text, text, text[], timestamptz, text),
+  public.item_facets(text, text, boolean, text, text, text[], timestamptz, text)
+to anon, authenticated;
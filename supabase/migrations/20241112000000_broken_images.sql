@@ -0,0 +1,68 @@
+-- Imagens que não carregaram em nenhuma das fontes, reportadas pelos browsers, e re-ligação pelo admin
+create table if not exists public.broken_images (
+  item_id uuid primary key references public.items(id) on delete cascade,
+  image_url text not null,   -- o link que falhou; deixa de contar quando o item muda de imagem
+  reported_by text not null,
+  reported_at timestamptz not null default now()
+);
+
+alter table public.broken_images enable row level security;
+create policy broken_images_read on public.broken_images for select to anon, authenticated using (true);
+
+-- quem tem sessão reporta; um link que já não é o do item é ignorado
+create or replace function public.report_broken_image(p_token uuid, p_item_id uuid, p_image_url text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+begin
+  s := require_session(p_token);
+  if not exists (select 1 from items where id = p_item_id and image_url = p_image_url) then
+    return;
+  end if;
+  insert into broken_images (item_id, image_url, reported_by)
+  values (p_item_id, p_image_url, s.name)
+  on conflict (item_id) do update
+    set image_url = excluded.image_url, reported_by = excluded.reported_by, reported_at = now();
+end;
+$$;
+
+-- o admin tira da lista (ex.: voltou a carregar)
+create or replace function public.dismiss_broken_image(p_token uuid, p_item_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  delete from broken_images where item_id = p_item_id;
+end;
+$$;
+
+-- novo link para a foto; o antigo fica em merged_image_urls para a importação o reconhecer
+create or replace function public.relink_item_image(p_token uuid, p_id uuid, p_image_url text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  i items;
+begin
+  s := require_admin(p_token);
+  if coalesce(trim(p_image_url), '') = '' then
+    raise exception 'Link vazio';
+  end if;
+  select * into i from items where id = p_id for update;
+  if i.id is null then
+    raise exception 'Item não encontrado';
+  end if;
+  if i.image_url <> trim(p_image_url) then
+    update items
+    set image_url = trim(p_image_url),
+        merged_image_urls = array_remove(array_remove(i.merged_image_urls, i.image_url) || i.image_url, trim(p_image_url)),
+        updated_by = s.name
+    where id = p_id;
+  end if;
+  delete from broken_images where item_id = p_id;
+end;
+$$;
+
+grant execute on function
+  public.report_broken_image(uuid, uuid, text),
+  public.dismiss_broken_image(uuid, uuid),
+  public.relink_item_image(uuid, uuid, text)
+to anon, authenticated;
@@ -0,0 +1,61 @@
+-- A pesquisa passa a usar ilike, para o índice items_title_search_idx (trigramas) poder ser usado.
+-- Cada palavra vira um padrão '%palavra%' (com % e _ escapados); o título tem de casar com todos.
+create or replace function public.search_patterns(p_q text) returns text[]
+language sql immutable parallel safe set search_path = public as $$
+  select coalesce(array_agg('%' || regexp_replace(w, '([%_\\])', '\\\1', 'g') || '%'), '{}')
+  from regexp_split_to_table(search_normalize(trim(p_q)), '\s+') w
+  where w <> '';
+$$;
+
+-- a palavra mais longa dá o padrão mais seletivo; é este que o índice usa
+create or replace function public.search_index_pattern(p_q text) returns text
+language sql immutable parallel safe set search_path = public as $$
+  select p from unnest(search_patterns(p_q)) p order by length(p) desc limit 1;
+$$;
+
+create or replace function public.item_matches(
+  i items,
+  p_q text,
+  p_owner text,
+  p_only_untitled boolean,
+  p_location text,
+  p_category text,
+  p_tags text[],
+  p_news_since timestamptz,
+  p_me text
+) returns boolean
+language sql stable set search_path = public as $$
+  select
+    (case when p_owner = '__archived__' then i.archived_at is not null else i.archived_at is null end)
+    and (p_owner in ('todos', '__archived__') or (p_owner = '__none__' and i.owner is null) or i.owner = p_owner)
+    and (not p_only_untitled or coalesce(trim(i.title), '') = '')
+    and (p_location = 'todas' or (p_location = '__none__' and i.location is null) or i.location = p_location)
+    and (p_category = 'todas' or (p_category = '__none__' and i.category is null) or i.category = p_category)
+    and i.tags @> coalesce(p_tags, '{}')
+    and (p_news_since is null
+      or i.created_at > p_news_since
+      or (i.updated_at > p_news_since and i.updated_by is distinct from p_me))
+    and search_normalize(i.title) ilike all (search_patterns(p_q));
+$$;
+
+create or replace function public.search_items(
+  p_q text default '',
+  p_owner text default 'todos',
+  p_only_untitled boolean default false,
+  p_location text default 'todas',
+  p_category text default 'todas',
+  p_tags text[] default '{}',
+  p_news_since timestamptz default null,
+  p_me text default null
+) returns setof items
+language sql stable set search_path = public as $$
+  select * from items i
+  where (search_index_pattern(p_q) is null or search_normalize(i.title) ilike search_index_pattern(p_q))
+    and item_matches(i, p_q, p_owner, p_only_untitled, p_location, p_category, p_tags, p_news_since, p_me)
+  order by i.created_at desc, i.id;
+$$;
+
+grant execute on function
+  public.search_patterns(text),
+  public.search_index_pattern(text)
+to anon, authenticated;
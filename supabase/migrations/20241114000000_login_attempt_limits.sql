@@ -0,0 +1,115 @@
+-- Limite de tentativas falhadas no código de pessoa e no PIN de admin, contra tentativas em série.
+-- Conta-se por nome e por cliente (o IP de onde vem o pedido), não por sessão: abrir outra sessão não
+-- recomeça a contagem, e quem erra de um lado não bloqueia a pessoa certa que entra de outro.
+-- Depois de 5 falhas seguidas fica bloqueado 1 minuto, e o dobro a cada nova falha (até 1 hora).
+-- Como o IP pode ser forjado, há ainda um travão por nome, de todos os clientes juntos: com 50 falhas
+-- na última hora, 1 minuto de espera depois de cada falha, sem escalar.
+create table if not exists public.login_failures (
+  kind text not null check (kind in ('member', 'admin')),
+  name text not null,
+  client text not null default '',
+  failures int not null default 0,
+  last_failure_at timestamptz not null default now(),
+  locked_until timestamptz,
+  primary key (kind, name, client)
+);
+
+-- sem políticas: só as funções abaixo lhe mexem
+alter table public.login_failures enable row level security;
+
+-- o IP de quem pede, como o gateway o passa; vazio fora de pedidos HTTP
+create or replace function public.login_client() returns text
+language sql stable set search_path = public as $$
+  select coalesce(
+    h->>'cf-connecting-ip',
+    trim(split_part(h->>'x-forwarded-for', ',', 1)),
+    ''
+  )
+  from (select nullif(current_setting('request.headers', true), '')::json as h) r;
+$$;
+
+create or replace function public.check_login_lock(p_kind text, p_name text) returns void
+language plpgsql stable security definer set search_path = public as $$
+declare
+  until timestamptz;
+  name_until timestamptz;
+begin
+  select locked_until into until from login_failures
+  where kind = p_kind and name = lower(p_name) and client = login_client();
+  select max(last_failure_at) + interval '1 minute' into name_until
+  from login_failures
+  where kind = p_kind and name = lower(p_name) and last_failure_at > now() - interval '1 hour'
+  having sum(failures) >= 50;
+  until := greatest(until, name_until);
+  if until > now() then
+    raise exception 'Demasiadas tentativas falhadas. Tente de novo daqui a % minuto(s).',
+      ceil(extract(epoch from until - now()) / 60)::int
+      using errcode = 'P0429';
+  end if;
+end;
+$$;
+
+create or replace function public.record_login_failure(p_kind text, p_name text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into login_failures as f (kind, name, client, failures)
+  values (p_kind, lower(p_name), login_client(), 1)
+  on conflict (kind, name, client) do update
+    -- uma hora sem falhas recomeça a contagem
+    set failures = case when f.last_failure_at < now() - interval '1 hour' then 1 else f.failures + 1 end,
+        last_failure_at = now();
+  update login_failures
+  set locked_until = now() + least(interval '1 minute' * power(2, failures - 5), interval '1 hour')
+  where kind = p_kind and name = lower(p_name) and client = login_client() and failures >= 5;
+end;
+$$;
+
+create or replace function public.clear_login_failures(p_kind text, p_name text) returns void
+language sql security definer set search_path = public as $$
+  delete from login_failures where kind = p_kind and name = lower(p_name) and client = login_client();
+$$;
+
+create or replace function public.member_login(p_name text, p_code text) returns uuid
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  t uuid;
+begin
+  perform check_login_lock('member', p_name);
+  if not exists (
+    select 1 from member_codes m join people p on p.name = m.name
+    where m.name = p_name and p.active and m.code_hash = crypt(p_code, m.code_hash)
+  ) then
+    perform record_login_failure('member', p_name);
+    return null;
+  end if;
+  perform clear_login_failures('member', p_name);
+  delete from sessions where expires_at <= now();
+  insert into sessions (name) values (p_name) returning token into t;
+  return t;
+end;
+$$;
+
+create or replace function public.admin_elevate(p_token uuid, p_pin text) returns boolean
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  s sessions;
+begin
+  s := require_session(p_token);
+  perform check_login_lock('admin', s.name);
+  if not exists (select 1 from admin_config where pin_hash = crypt(p_pin, pin_hash)) then
+    perform record_login_failure('admin', s.name);
+    return false;
+  end if;
+  perform clear_login_failures('admin', s.name);
+  update sessions set is_admin = true where token = s.token;
+  return true;
+end;
+$$;
+
+-- as funções auxiliares não são chamáveis diretamente
+revoke execute on function
+  public.login_client(),
+  public.check_login_lock(text, text),
+  public.record_login_failure(text, text),
+  public.clear_login_failures(text, text)
+from public, anon, authenticated;
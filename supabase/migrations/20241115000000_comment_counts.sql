@@ -0,0 +1,18 @@
+-- Contagens de comentários por item, para a grelha não ter de carregar a tabela inteira.
+-- p_read é o que a pessoa já leu neste browser ({ item_id: id do último comentário lido });
+-- os próprios comentários nunca contam como por ler.
+create or replace function public.comment_counts(p_me text, p_read jsonb default '{}')
+returns table (item_id uuid, total bigint, unread bigint)
+language sql stable set search_path = public as $$
+  select
+    c.item_id,
+    count(*),
+    count(*) filter (
+      where c.author is distinct from p_me
+        and c.id > coalesce((p_read ->> c.item_id::text)::bigint, 0)
+    )
+  from item_comments c
+  group by c.item_id;
+$$;
+
+grant execute on function public.comment_counts(text, jsonb) to anon, authenticated;
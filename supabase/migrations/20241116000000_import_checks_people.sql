@@ -0,0 +1,43 @@
+-- A importação passa a validar dono e interessados contra people, como update_item,
+-- e devolve o resultado de cada linha (pela ordem recebida) em vez de só quantas entraram.
+drop function if exists public.import_items(uuid, jsonb);
+
+create or replace function public.import_items(p_token uuid, p_rows jsonb)
+returns table (id uuid, error text)
+language plpgsql security definer set search_path = public as $$
+declare
+  s sessions;
+  r record;
+  unknown text[];
+begin
+  s := require_admin(p_token);
+  for r in
+    select * from jsonb_to_recordset(p_rows) as x(image_url text, title text, owner text, also_want text[])
+  loop
+    id := null;
+    error := null;
+    begin
+      if r.image_url is null or r.image_url not like 'http%' then
+        raise exception 'Link inválido';
+      end if;
+      if r.owner is not null and not exists (select 1 from people where name = r.owner) then
+        raise exception 'Pessoa desconhecida: %', r.owner;
+      end if;
+      select array_agg(n) into unknown
+      from unnest(coalesce(r.also_want, '{}')) n
+      where n not in (select name from people);
+      if unknown is not null then
+        raise exception 'Interessado desconhecido: %', array_to_string(unknown, ', ');
+      end if;
+      insert into items (image_url, title, owner, also_want, updated_by)
+      values (r.image_url, r.title, r.owner, coalesce(r.also_want, '{}'), s.name)
+      returning items.id into id;
+    exception when others then
+      error := sqlerrm;
+    end;
+    return next;
+  end loop;
+end;
+$$;
+
+grant execute on function public.import_items(uuid, jsonb) to anon, authenticated;
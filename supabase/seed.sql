@@ -0,0 +1,14 @@
+-- Dados para o ambiente local (`supabase start` / `supabase db reset`).
+-- PIN de admin: 0000. Código de cada pessoa: 1111.
+
+insert into public.admin_config (pin_hash) values (extensions.crypt('0000', extensions.gen_salt('bf')))
+on conflict (id) do update set pin_hash = excluded.pin_hash;
+
+insert into public.member_codes (name, code_hash)
+select name, extensions.crypt('1111', extensions.gen_salt('bf')) from public.people
+on conflict (name) do update set code_hash = excluded.code_hash;
+
+insert into public.items (image_url, title, owner, also_want) values
+  ('https://drive.google.com/uc?export=view&id=local-exemplo-1', 'Cadeirão da sala', 'Sandra', '{Sofia}'),
+  ('https://drive.google.com/uc?export=view&id=local-exemplo-2', 'Relógio do pai', null, '{}'),
+  ('https://drive.google.com/uc?export=view&id=local-exemplo-3', null, null, '{}');
@@ -0,0 +1,125 @@
+-- Testes das políticas e RPCs: `supabase test db`
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(24);
+
+set local role anon;
+
+-- escrita direta está bloqueada para o anon
+select throws_ok(
+  $$ insert into items (image_url) values ('https://example.com/x.jpg') $$,
+  '42501', null, 'anon não insere diretamente'
+);
+select throws_ok(
+  $$ update items set owner = 'Pai' $$,
+  '42501', null, 'anon não atualiza diretamente'
+);
+select throws_ok(
+  $$ delete from people where name = 'Pai' $$,
+  '42501', null, 'anon não apaga pessoas diretamente'
+);
+select throws_ok(
+  $$ select rename_person('Pai', 'Outro', 'Sofia') $$,
+  '42501', null, 'mudar nomes sem sessão de admin é só interno'
+);
+select is_empty($$ select * from sessions $$, 'sessões não são legíveis');
+select is_empty($$ select * from member_codes $$, 'códigos não são legíveis');
+
+-- login de pessoa
+select is(member_login('Sofia', 'errado'), null, 'código errado não cria sessão');
+create temp table t as select member_login('Sofia', '1111') as token;
+
+-- sem admin: não pode atribuir a outra pessoa nem mexer no interesse de outros
+select throws_ok(
+  format($$ select update_item(%L, (select id from items where title = 'Relógio do pai'), '{"owner": "Pai"}') $$,
+         (select token from t)),
+  '42501', null, 'pessoa não atribui item a outra'
+);
+select throws_ok(
+  format($$ select update_item(%L, (select id from items where title = 'Cadeirão da sala'), '{"also_want": ["Sofia", "Pai"]}') $$,
+         (select token from t)),
+  '42501', null, 'pessoa não adiciona outros como interessados'
+);
+select lives_ok(
+  format($$ select update_item(%L, (select id from items where title = 'Relógio do pai'), '{"also_want": ["Sofia"]}') $$,
+         (select token from t)),
+  'pessoa adiciona-se como interessada'
+);
+select throws_ok(
+  format($$ select update_item(%L, (select id from items where title = 'Relógio do pai'), '{"estimated_value": 50}') $$,
+         (select token from t)),
+  '42501', null, 'valor estimado exige admin'
+);
+
+-- comentários: em nome da sessão, nunca vazios
+select is(
+  (add_comment((select token from t), (select id from items where title = 'Relógio do pai'), '  prometido ao Eduardo ')).author,
+  'Sofia', 'comentário fica com o nome da sessão'
+);
+select throws_ok(
+  format($$ select add_comment(%L, (select id from items where title = 'Relógio do pai'), '   ') $$, (select token from t)),
+  '23514', null, 'comentário vazio é recusado'
+);
+select is(
+  (select total from comment_counts('Sofia') where item_id = (select id from items where title = 'Relógio do pai')),
+  1::bigint, 'contagem de comentários por item'
+);
+select is(
+  (select unread from comment_counts('Pai') where item_id = (select id from items where title = 'Relógio do pai')),
+  1::bigint, 'comentário de outra pessoa conta como por ler'
+);
+
+-- em lote: o item proibido falha sozinho, os outros são aplicados
+select is(
+  (select array_agg(error is null order by error nulls first) from update_items(
+    (select token from t),
+    jsonb_build_array(
+      jsonb_build_object('id', (select id from items where title = 'Cadeirão da sala'), 'patch', '{"title": "Cadeirão"}'::jsonb),
+      jsonb_build_object('id', (select id from items where title = 'Relógio do pai'), 'patch', '{"owner": "Pai"}'::jsonb)
+    )
+  )),
+  array[true, false], 'lote devolve o erro de cada item'
+);
+
+-- imagens partidas: qualquer sessão reporta, só o admin muda o link
+select lives_ok(
+  format($$ select report_broken_image(%L, (select id from items where title = 'Relógio do pai'),
+                                       (select image_url from items where title = 'Relógio do pai')) $$,
+         (select token from t)),
+  'pessoa reporta imagem partida'
+);
+select is(
+  (select reported_by from broken_images where item_id = (select id from items where title = 'Relógio do pai')),
+  'Sofia', 'reporte fica com o nome da sessão'
+);
+select throws_ok(
+  format($$ select relink_item_image(%L, (select id from items where title = 'Relógio do pai'), 'https://example.com/z.jpg') $$,
+         (select token from t)),
+  '42501', null, 'mudar o link da imagem exige admin'
+);
+
+-- importação exige admin
+select throws_ok(
+  format($$ select import_items(%L, '[{"image_url": "https://example.com/y.jpg"}]') $$, (select token from t)),
+  '42501', null, 'importar exige admin'
+);
+select ok(admin_elevate((select token from t), '0000'), 'PIN certo eleva a sessão a admin');
+select is(
+  (select array_agg(error order by error nulls first) from import_items((select token from t), '[
+    {"image_url": "https://example.com/y.jpg", "owner": "Sofia"},
+    {"image_url": "https://example.com/z.jpg", "owner": "Ninguém"}
+  ]')),
+  array[null, 'Pessoa desconhecida: Ninguém'], 'importação recusa só a linha com dono desconhecido'
+);
+
+-- tentativas em série: depois de 5 falhas nem o código certo entra
+select member_login('Pai', 'errado') from generate_series(1, 5);
+select throws_ok(
+  $$ select member_login('Pai', '1111') $$,
+  'P0429', null, 'código bloqueado depois de 5 falhas'
+);
+select set_config('request.headers', '{"x-forwarded-for": "203.0.113.9"}', true);
+select isnt(member_login('Pai', '1111'), null, 'as falhas de outro cliente não bloqueiam esta pessoa');
+
+select * from finish();
+rollback;